@@ -1,12 +1,18 @@
 "use client";
 
 import {
+  type CircuitState,
   type Comment,
   type CommentSystem,
   createCommentSystem,
   type Decision,
   type Event,
+  type FilteredEvent,
+  MemoryDetectionCacheStore,
+  mimicTurns,
+  type ResilienceStage,
   type Turn,
+  type UsageTotals,
 } from "@prof/ai-reaction";
 import { useAtom } from "jotai";
 import { Settings } from "lucide-react";
@@ -22,22 +28,38 @@ import { PlayerControls } from "@/components/playground/player-controls";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Player } from "@/lib/player";
-import { mimicTurns, parseSubtitle } from "@/lib/subtitle";
+import { parseSubtitle } from "@/lib/subtitle";
+
+// Outlives each loaded transcript, so replaying one reuses its detections
+const detectionCacheStore = new MemoryDetectionCacheStore();
 
 interface LogEntry {
   id: string;
-  type: "event" | "decision";
+  type: "event" | "filtered" | "decision" | "skipped" | "budget" | "circuit";
   timestamp: number;
-  turn: Turn;
-  data: Event | Decision;
+  /** Null for session-level entries not tied to a turn */
+  turn: Turn | null;
+  data:
+    | Event
+    | FilteredEvent
+    | Decision
+    | { reason: string; score: number }
+    | { reason: string; action: "downgrade" | "stop"; total: UsageTotals }
+    | {
+        stage: ResilienceStage;
+        state: CircuitState;
+        previous: CircuitState;
+        fallback?: string;
+      };
   processingTimeMs: number;
 }
 
 interface CommentWithStatus extends Comment {
   turn: Turn;
-  status: "generating" | "completed" | "rejected";
+  status: "generating" | "completed" | "rejected" | "cancelled";
   partialText?: string;
   rejectionReason?: string;
+  cancelReason?: string;
 }
 
 interface PlaygroundState {
@@ -71,7 +93,7 @@ export default function PlaygroundPage() {
 
   const initializeSystem = useCallback(
     async (turns: Turn[]) => {
-      if (!apiKeys.openai) {
+      if (!apiKeys.openai && !apiKeys.google && !apiKeys.openaiCompatible) {
         alert("Please configure API keys first");
         return;
       }
@@ -88,24 +110,28 @@ export default function PlaygroundPage() {
         createCommentSystem({
           apiKeys,
           config: systemConfig,
+          detectionCacheStore,
         }),
       );
 
       // Wire up events
       stack.defer(
         player.on("play", () => {
+          commentSystem.onResume();
           setState((prev) => ({ ...prev, isPlaying: true }));
         }),
       );
 
       stack.defer(
         player.on("pause", () => {
+          commentSystem.onPause();
           setState((prev) => ({ ...prev, isPlaying: false }));
         }),
       );
 
       stack.defer(
         player.on("time-update", (currentTime) => {
+          commentSystem.onTimeUpdate(currentTime);
           setState((prev) => ({ ...prev, currentTime }));
         }),
       );
@@ -143,10 +169,22 @@ export default function PlaygroundPage() {
 
       stack.defer(
         player.on("speed-changed", (speed) => {
+          commentSystem.onRateChange(speed);
           setState((prev) => ({ ...prev, playbackSpeed: speed }));
         }),
       );
 
+      stack.defer(
+        player.on("seek", (time) => {
+          commentSystem.onSeek(time);
+          setState((prev) => ({
+            ...prev,
+            currentTime: time,
+            activeTurns: new Set(),
+          }));
+        }),
+      );
+
       stack.defer(
         commentSystem.on(
           "comment-generated",
@@ -186,6 +224,61 @@ export default function PlaygroundPage() {
           }));
         }),
       );
+      stack.defer(
+        commentSystem.on("budget-exceeded", (reason, action, usage) => {
+          const logEntry = {
+            id: nanoid(),
+            type: "budget" as const,
+            timestamp: Date.now(),
+            turn: null,
+            data: { reason, action, total: usage.total },
+            processingTimeMs: 0,
+          };
+          setState((prev) => ({
+            ...prev,
+            logEntries: [...prev.logEntries, logEntry],
+          }));
+        }),
+      );
+      stack.defer(
+        commentSystem.on(
+          "circuit-state",
+          (stage, state, previous, fallback) => {
+            const logEntry = {
+              id: nanoid(),
+              type: "circuit" as const,
+              timestamp: Date.now(),
+              turn: null,
+              data: { stage, state, previous, fallback },
+              processingTimeMs: 0,
+            };
+            setState((prev) => ({
+              ...prev,
+              logEntries: [...prev.logEntries, logEntry],
+            }));
+          },
+        ),
+      );
+      stack.defer(
+        commentSystem.on("comment-cancelled", (turn: Turn, reason: string) => {
+          setState((prev) => ({
+            ...prev,
+            comments: prev.comments.map((existingComment) =>
+              existingComment.status === "generating" &&
+              existingComment.turn.id === turn.id
+                ? {
+                    ...existingComment,
+                    // Keep whatever was streamed before the run was aborted
+                    content: existingComment.partialText ?? "",
+                    status: "cancelled" as const,
+                    cancelReason: reason,
+                    partialText: undefined,
+                  }
+                : existingComment,
+            ),
+          }));
+        }),
+      );
 
       stack.defer(
         commentSystem.on(
@@ -207,6 +300,54 @@ export default function PlaygroundPage() {
         ),
       );
 
+      stack.defer(
+        commentSystem.on("events-filtered", (filtered, turn) => {
+          const logEntries = filtered.map((data) => ({
+            id: nanoid(),
+            type: "filtered" as const,
+            timestamp: Date.now(),
+            turn,
+            data,
+            processingTimeMs: 0,
+          }));
+          setState((prev) => ({
+            ...prev,
+            logEntries: [...prev.logEntries, ...logEntries],
+          }));
+        }),
+      );
+
+      stack.defer(
+        commentSystem.on("events-updated", (events) => {
+          const byId = new Map(events.map((event) => [event.id, event]));
+          setState((prev) => ({
+            ...prev,
+            logEntries: prev.logEntries.map((entry) =>
+              entry.type === "event" && byId.has((entry.data as Event).id)
+                ? { ...entry, data: byId.get((entry.data as Event).id)! }
+                : entry,
+            ),
+          }));
+        }),
+      );
+
+      stack.defer(
+        commentSystem.on("detection-skipped", (turn, reason, score) => {
+          const logEntry = {
+            id: nanoid(),
+            type: "skipped" as const,
+            timestamp: Date.now(),
+            turn,
+            data: { reason, score },
+            processingTimeMs: 0,
+          };
+          setState((prev) => ({
+            ...prev,
+            logEntries: [...prev.logEntries, logEntry],
+          }));
+        }),
+      );
+
       stack.defer(
         commentSystem.on(
           "decision-made",
@@ -250,46 +391,51 @@ export default function PlaygroundPage() {
           }));
 
           let responseText = "";
-          for await (const event of response) {
-            if (event.type === "agent_updated_stream_event") {
-              console.debug(
-                "[agent_updated_stream_event]",
-                event.agent.name,
-                event.agent,
-              );
-            } else if (event.type === "run_item_stream_event") {
-              console.debug("[run_item_stream_event]", event.name);
-            } else if (event.type === "raw_model_stream_event") {
-              if (event.data.type === "response_started") {
-                responseText = "";
-                // Reset partial text on response restart
-                setState((prev) => ({
-                  ...prev,
-                  comments: prev.comments.map((comment) =>
-                    comment.id === partialCommentId
-                      ? { ...comment, partialText: "" }
-                      : comment,
-                  ),
-                }));
-              }
-              if (event.data.type === "output_text_delta") {
-                responseText += event.data.delta;
-                console.log("[comment-generating]", responseText);
-                // Update partial text in real-time
-                setState((prev) => ({
-                  ...prev,
-                  comments: prev.comments.map((comment) =>
-                    comment.id === partialCommentId
-                      ? { ...comment, partialText: responseText }
-                      : comment,
-                  ),
-                }));
-              }
-              if (event.data.type === "response_done") {
-                console.log("[comment-done]", responseText);
-                responseText = "";
+          // An aborted run rejects the stream; comment-cancelled reports it
+          try {
+            for await (const event of response) {
+              if (event.type === "agent_updated_stream_event") {
+                console.debug(
+                  "[agent_updated_stream_event]",
+                  event.agent.name,
+                  event.agent,
+                );
+              } else if (event.type === "run_item_stream_event") {
+                console.debug("[run_item_stream_event]", event.name);
+              } else if (event.type === "raw_model_stream_event") {
+                if (event.data.type === "response_started") {
+                  responseText = "";
+                  // Reset partial text on response restart
+                  setState((prev) => ({
+                    ...prev,
+                    comments: prev.comments.map((comment) =>
+                      comment.id === partialCommentId
+                        ? { ...comment, partialText: "" }
+                        : comment,
+                    ),
+                  }));
+                }
+                if (event.data.type === "output_text_delta") {
+                  responseText += event.data.delta;
+                  console.log("[comment-generating]", responseText);
+                  // Update partial text in real-time
+                  setState((prev) => ({
+                    ...prev,
+                    comments: prev.comments.map((comment) =>
+                      comment.id === partialCommentId
+                        ? { ...comment, partialText: responseText }
+                        : comment,
+                    ),
+                  }));
+                }
+                if (event.data.type === "response_done") {
+                  console.log("[comment-done]", responseText);
+                  responseText = "";
+                }
               }
             }
+          } catch (error) {
+            if (!response.cancelled) throw error;
           }
         }),
       );
@@ -455,6 +601,9 @@ export default function PlaygroundPage() {
                 <CueDisplay
                   turns={state.turns}
                   activeTurns={state.activeTurns}
+                  events={state.logEntries
+                    .filter((entry) => entry.type === "event")
+                    .map((entry) => entry.data as Event)}
                   onSeek={handleSeek}
                 />
               ) : (
@@ -35,6 +35,7 @@ const apiKeysSchema = z.object({
     )
     .optional(),
   google: z.string().optional(),
+  openaiCompatible: z.string().optional(),
 });
 
 export function ApiKeysForm() {
@@ -58,8 +59,8 @@ export function ApiKeysForm() {
                 OpenAI API Key
               </CardTitle>
               <CardDescription>
-                Required for AI comment generation and event detection. Get your
-                API key from{" "}
+                Required for OpenAI comment generation and event detection. Get
+                your API key from{" "}
                 <a
                   href="https://platform.openai.com/api-keys"
                   target="_blank"
@@ -100,7 +101,7 @@ export function ApiKeysForm() {
                 Google API Key
               </CardTitle>
               <CardDescription>
-                Required for Google Gemini services.
+                Required for Google Gemini detection and comment generation.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -129,6 +130,39 @@ export function ApiKeysForm() {
               />
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Key className="w-5 h-5" />
+                OpenAI-compatible Server Key
+              </CardTitle>
+              <CardDescription>
+                Only needed if your self-hosted server (llama.cpp, Ollama, vLLM)
+                checks API keys.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="openaiCompatible"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>API Key</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="text"
+                        placeholder="Optional"
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
         </div>
       </form>
     </Form>
@@ -3,15 +3,29 @@ import {
   type CommentGeneratorConfig,
   type CommentSystemConfig,
   type DecisionEngineConfig,
+  type DetectionCacheConfig,
+  type DetectionQueueConfig,
   defaultCommentGeneratorConfig,
   defaultContextBufferConfig,
   defaultDecisionEngineConfig,
+  defaultDetectionCacheConfig,
+  defaultDetectionQueueConfig,
   defaultEventDetectorConfig,
+  defaultNoveltyFilterConfig,
+  defaultPreFilterConfig,
+  defaultResilienceConfig,
   defaultShortTurnAggregatorConfig,
+  defaultStalenessConfig,
   defaultUncommentedBufferConfig,
+  defaultUsageConfig,
   type EventDetectorConfig,
+  type NoveltyFilterConfig,
+  type PreFilterConfig,
+  type ResilienceConfig,
   type ShortTurnAggregatorConfig,
+  type StalenessConfig,
   type TextBufferConfig,
+  type UsageConfig,
   writers,
 } from "@prof/ai-reaction";
 import { atom } from "jotai";
@@ -72,12 +86,68 @@ export const shortTurnAggregatorConfigAtom =
     { getOnInit: true },
   );
 
+export const noveltyFilterConfigAtom = atomWithStorage<NoveltyFilterConfig>(
+  "noveltyFilterConfig",
+  defaultNoveltyFilterConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const stalenessConfigAtom = atomWithStorage<StalenessConfig>(
+  "stalenessConfig",
+  defaultStalenessConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const detectionQueueConfigAtom = atomWithStorage<DetectionQueueConfig>(
+  "detectionQueueConfig",
+  defaultDetectionQueueConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const usageConfigAtom = atomWithStorage<UsageConfig>(
+  "usageConfig",
+  defaultUsageConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const preFilterConfigAtom = atomWithStorage<PreFilterConfig>(
+  "preFilterConfig",
+  defaultPreFilterConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const detectionCacheConfigAtom = atomWithStorage<DetectionCacheConfig>(
+  "detectionCacheConfig",
+  defaultDetectionCacheConfig,
+  undefined,
+  { getOnInit: true },
+);
+
+export const resilienceConfigAtom = atomWithStorage<ResilienceConfig>(
+  "resilienceConfig",
+  defaultResilienceConfig,
+  undefined,
+  { getOnInit: true },
+);
+
 export const systemConfigAtom = atom<CommentSystemConfig>((get) => ({
   apiKeys: get(apiKeysAtom),
   commentGenerator: get(commentGeneratorConfigAtom),
   decisionEngine: get(decisionEngineConfigAtom),
   eventDetector: get(eventDetectorConfigAtom),
+  detectionQueue: get(detectionQueueConfigAtom),
   contextBuffer: get(contextBufferConfigAtom),
   uncommentedBuffer: get(uncommentedBufferConfigAtom),
   shortTurnAggregator: get(shortTurnAggregatorConfigAtom),
+  novelty: get(noveltyFilterConfigAtom),
+  staleness: get(stalenessConfigAtom),
+  preFilter: get(preFilterConfigAtom),
+  detectionCache: get(detectionCacheConfigAtom),
+  usage: get(usageConfigAtom),
+  resilience: get(resilienceConfigAtom),
 }));
@@ -19,6 +19,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useAutoSubmit } from "./use-auto-submit";
 
@@ -77,6 +84,63 @@ export function CommentGeneratorConfigForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="selectorProvider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Selector Provider</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value ?? "openai"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select provider" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="openai">OpenAI</SelectItem>
+                      <SelectItem value="google">Google</SelectItem>
+                      <SelectItem value="openai-compatible">
+                        OpenAI-compatible (local)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Provider for the selector, also used by writers without
+                    their own provider.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="providers.openai-compatible.baseURL"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>OpenAI-compatible Base URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(e.target.value || undefined)
+                      }
+                      placeholder="http://localhost:8080/v1"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Required when the selector or a writer uses the
+                    OpenAI-compatible provider.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="selectorInstructions"
@@ -98,6 +162,31 @@ export function CommentGeneratorConfigForm({
                 </FormItem>
               )}
             />
+
+            <FormField
+              control={form.control}
+              name="historyDepth"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>History Depth</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={field.value ?? 3}
+                      onChange={(e) => field.onChange(Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Number of previous comments shown to writers so they can
+                    build on them instead of repeating. 0 disables history.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
         </div>
 
@@ -262,6 +351,41 @@ export function CommentGeneratorConfigForm({
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name={`writers.${index}.provider`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Provider (Optional)</FormLabel>
+                          <Select
+                            onValueChange={(value) =>
+                              field.onChange(
+                                value === "default" ? undefined : value,
+                              )
+                            }
+                            defaultValue={field.value ?? "default"}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Same as selector" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="default">
+                                Same as selector
+                              </SelectItem>
+                              <SelectItem value="openai">OpenAI</SelectItem>
+                              <SelectItem value="google">Google</SelectItem>
+                              <SelectItem value="openai-compatible">
+                                OpenAI-compatible (local)
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </Card>
               ))
@@ -5,8 +5,10 @@ import {
   type DecisionEngineConfig,
   DecisionEngineConfigSchema,
 } from "@prof/ai-reaction";
-import { useForm } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
 import type z from "zod";
+import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
@@ -17,6 +19,13 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { useAutoSubmit } from "./use-auto-submit";
 
@@ -35,6 +44,11 @@ export function DecisionEngineConfigForm({
     mode: "onChange",
   });
 
+  const eventFactors = useFieldArray({
+    control: form.control,
+    name: "eventFactors",
+  });
+
   useAutoSubmit(form, onSubmit);
 
   return (
@@ -101,6 +115,32 @@ export function DecisionEngineConfigForm({
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="whileCommenting"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>While Commenting</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select behavior" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="queue">Queue behind it</SelectItem>
+                  <SelectItem value="supersede">Supersede it</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                What a new decision to comment does while another comment is
+                scheduled or streaming
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Weight sliders */}
         {(
           [
@@ -136,6 +176,107 @@ export function DecisionEngineConfigForm({
             )}
           />
         ))}
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <FormLabel>Event Factors</FormLabel>
+              <p className="text-sm text-muted-foreground">
+                Which factor an event type (e.g. a custom one) counts toward,
+                and how strongly
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                eventFactors.append({
+                  type: "",
+                  factor: "importance",
+                  weight: 1,
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Mapping
+            </Button>
+          </div>
+
+          {eventFactors.fields.map((mapping, index) => (
+            <div key={mapping.id} className="flex gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`eventFactors.${index}.type`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="goal_scored"
+                        className="font-mono"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`eventFactors.${index}.factor`}
+                render={({ field }) => (
+                  <FormItem className="w-36">
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Factor" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="emotion">Emotion</SelectItem>
+                        <SelectItem value="topic">Topic</SelectItem>
+                        <SelectItem value="importance">Importance</SelectItem>
+                        <SelectItem value="keyword">Keyword</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`eventFactors.${index}.weight`}
+                render={({ field }) => (
+                  <FormItem className="w-24">
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => eventFactors.remove(index)}
+                className="h-9 w-9 p-0 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
       </form>
     </Form>
   );
@@ -0,0 +1,104 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  type DetectionCacheConfig,
+  DetectionCacheConfigSchema,
+} from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface DetectionCacheConfigFormProps {
+  defaultValues: DetectionCacheConfig;
+  onSubmit: (data: DetectionCacheConfig) => void | Promise<void>;
+}
+
+export function DetectionCacheConfigForm({
+  defaultValues,
+  onSubmit,
+}: DetectionCacheConfigFormProps) {
+  const form = useForm<DetectionCacheConfig>({
+    resolver: zodResolver(DetectionCacheConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const fields = [
+    {
+      name: "ttlMs",
+      label: "TTL (ms)",
+      description: "How long a cached result stays valid",
+      step: 60000,
+    },
+    {
+      name: "maxEntries",
+      label: "Max Entries",
+      description: "Least recently used results are evicted beyond this",
+      step: 100,
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between">
+              <div className="space-y-1">
+                <FormLabel>Enabled</FormLabel>
+                <FormDescription>
+                  Reuse results of identical detection requests instead of
+                  calling the provider again
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {fields.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    {...formField}
+                    onChange={(e) => formField.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  type DetectionQueueConfig,
+  DetectionQueueConfigSchema,
+} from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface DetectionQueueConfigFormProps {
+  defaultValues: DetectionQueueConfig;
+  onSubmit: (data: DetectionQueueConfig) => void | Promise<void>;
+}
+
+export function DetectionQueueConfigForm({
+  defaultValues,
+  onSubmit,
+}: DetectionQueueConfigFormProps) {
+  const form = useForm<DetectionQueueConfig>({
+    resolver: zodResolver(DetectionQueueConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="strategy"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Strategy</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select strategy" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="latest">Latest only</SelectItem>
+                  <SelectItem value="fifo">FIFO</SelectItem>
+                  <SelectItem value="coalesce">Coalesce</SelectItem>
+                  <SelectItem value="batch">Batch</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                What to do with turns that arrive while detection is busy
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="maxSize"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Max Pending Turns</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step={1}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FormDescription>
+                FIFO, coalesce and batch: the oldest waiting turn is dropped
+                beyond this
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="batchSize"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Batch Size</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step={1}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FormDescription>
+                Batch only: turns sent in one detection request
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="batchMaxWaitMs"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Batch Max Wait (ms)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step={100}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FormDescription>
+                Batch only: how long a turn waits for the batch to fill
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="batchDecision"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Batch Decision</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select decision mode" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="batch">Once per batch</SelectItem>
+                  <SelectItem value="turn">Once per turn</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Batch only: decide on all events of a batch together, or on each
+                turn's events in order
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
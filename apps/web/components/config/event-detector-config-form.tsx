@@ -2,10 +2,15 @@
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
+  builtInEventTypes,
+  defaultEventDetectorConfig,
+  defaultEventThreshold,
   type EventDetectorConfig,
   EventDetectorConfigSchema,
 } from "@prof/ai-reaction";
-import { useForm } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
@@ -23,7 +28,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { useAutoSubmit } from "./use-auto-submit";
 
 interface EventDetectorConfigFormProps {
@@ -41,6 +47,23 @@ export function EventDetectorConfigForm({
     mode: "onChange",
   });
 
+  const fallbacks = useFieldArray({
+    control: form.control,
+    name: "fallbacks",
+  });
+  const customEventTypes = useFieldArray({
+    control: form.control,
+    name: "customEventTypes",
+  });
+
+  const customTypeNames = form
+    .watch("customEventTypes")
+    ?.map((eventType) => eventType.name);
+  const eventTypes = [
+    ...builtInEventTypes,
+    ...new Set(customTypeNames?.filter(Boolean)),
+  ];
+
   useAutoSubmit(form, onSubmit);
 
   return (
@@ -61,6 +84,9 @@ export function EventDetectorConfigForm({
                 <SelectContent>
                   <SelectItem value="openai">OpenAI</SelectItem>
                   <SelectItem value="google">Google</SelectItem>
+                  <SelectItem value="openai-compatible">
+                    OpenAI-compatible (local)
+                  </SelectItem>
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -82,55 +108,489 @@ export function EventDetectorConfigForm({
           )}
         />
 
-        {(
-          [
-            {
-              name: "detectionSensitivity",
-              label: "Detection Sensitivity",
-              description: "Minimum confidence threshold for event detection",
-            },
-            {
-              name: "emotionThreshold",
-              label: "Emotion Threshold",
-              description: "Minimum intensity threshold for emotional events",
-            },
-            {
-              name: "topicTransitionThreshold",
-              label: "Topic Transition Threshold",
-              description:
-                "Minimum intensity threshold for topic transition events",
-            },
-            {
-              name: "keypointDensityThreshold",
-              label: "Keypoint Density Threshold",
-              description: "Minimum density threshold for keypoint events",
-            },
-          ] as const
-        ).map((threshold) => (
-          <FormField
-            key={threshold.name}
-            control={form.control}
-            name={threshold.name}
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>
-                  {threshold.label}: {field.value}
-                </FormLabel>
+        <FormField
+          control={form.control}
+          name="providerOptions.baseURL"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Base URL</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value || undefined)}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </FormControl>
+              <FormDescription>
+                Required for OpenAI-compatible servers (llama.cpp, Ollama);
+                optional override for the other providers
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="providerOptions.reasoningEffort"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reasoning Effort</FormLabel>
+              <Select
+                onValueChange={(value) =>
+                  field.onChange(value === "default" ? undefined : value)
+                }
+                defaultValue={field.value ?? "default"}
+              >
                 <FormControl>
-                  <Slider
-                    min={0}
-                    max={1}
-                    step={0.01}
-                    value={[field.value ?? 0]}
-                    onValueChange={(value) => field.onChange(value[0])}
-                  />
+                  <SelectTrigger>
+                    <SelectValue placeholder="Model default" />
+                  </SelectTrigger>
                 </FormControl>
-                <FormDescription>{threshold.description}</FormDescription>
+                <SelectContent>
+                  <SelectItem value="default">Model default</SelectItem>
+                  <SelectItem value="minimal">Minimal</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Only used by OpenAI reasoning models
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="providerOptions.temperature"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Temperature</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) =>
+                    field.onChange(
+                      e.target.value === ""
+                        ? undefined
+                        : Number(e.target.value),
+                    )
+                  }
+                  placeholder="Model default"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <FormLabel>Fallback Providers</FormLabel>
+              <p className="text-sm text-muted-foreground">
+                Tried in order when the provider above fails, refuses or returns
+                unparsable output
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                fallbacks.append({ modelProvider: "google", model: "" })
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Fallback
+            </Button>
+          </div>
+
+          {fallbacks.fields.map((fallback, index) => (
+            <div key={fallback.id} className="flex gap-2 items-start">
+              <FormField
+                control={form.control}
+                name={`fallbacks.${index}.modelProvider`}
+                render={({ field }) => (
+                  <FormItem className="w-48">
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select provider" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="openai">OpenAI</SelectItem>
+                        <SelectItem value="google">Google</SelectItem>
+                        <SelectItem value="openai-compatible">
+                          OpenAI-compatible (local)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`fallbacks.${index}.model`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input {...field} placeholder="gemini-2.5-flash-lite" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => fallbacks.remove(index)}
+                className="h-9 w-9 p-0 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="heuristicFallback"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between">
+              <div className="space-y-1">
+                <FormLabel>Offline Heuristic Fallback</FormLabel>
+                <FormDescription>
+                  Detect events from punctuation and English/Chinese phrase
+                  lists when every provider failed, instead of losing the turn
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value ?? false}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <div>
+              <FormLabel>Custom Event Types</FormLabel>
+              <p className="text-sm text-muted-foreground">
+                Detected alongside the built-in types; map them to decision
+                factors under Decisions
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                customEventTypes.append({
+                  name: "",
+                  description: "",
+                  intensityRubric: "",
+                  examples: [],
+                })
+              }
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Event Type
+            </Button>
+          </div>
+
+          {customEventTypes.fields.map((eventType, index) => (
+            <div key={eventType.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex gap-2 items-start">
+                <FormField
+                  control={form.control}
+                  name={`customEventTypes.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="goal_scored"
+                          className="font-mono"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => customEventTypes.remove(index)}
+                  className="h-9 w-9 p-0 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <FormField
+                control={form.control}
+                name={`customEventTypes.${index}.description`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="Description, e.g. A team scores a goal"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`customEventTypes.${index}.intensityRubric`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        className="min-h-[60px]"
+                        placeholder="Intensity rubric, e.g. 0.5 for an ordinary goal, 0.9 for a late winner"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`customEventTypes.${index}.examples`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea
+                        value={field.value.join("\n")}
+                        onChange={(e) =>
+                          field.onChange(e.target.value.split("\n"))
+                        }
+                        className="min-h-[60px]"
+                        placeholder="Examples, one per line"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <FormLabel>Event Thresholds</FormLabel>
+            <p className="text-sm text-muted-foreground">
+              Events below the minimum confidence or intensity of their type are
+              dropped and shown as filtered in the log
+            </p>
+          </div>
+
+          {eventTypes.map((type) => (
+            <FormField
+              key={type}
+              control={form.control}
+              name={`eventThresholds.${type}`}
+              render={({ field }) => {
+                const threshold = field.value ?? defaultEventThreshold;
+                return (
+                  <FormItem className="flex gap-2 items-center">
+                    <FormLabel className="flex-1 font-mono">{type}</FormLabel>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={threshold.minConfidence}
+                      onChange={(e) =>
+                        field.onChange({
+                          ...threshold,
+                          minConfidence: e.target.valueAsNumber,
+                        })
+                      }
+                      title="Minimum confidence"
+                      className="w-20"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={threshold.minIntensity}
+                      onChange={(e) =>
+                        field.onChange({
+                          ...threshold,
+                          minIntensity: e.target.valueAsNumber,
+                        })
+                      }
+                      title="Minimum intensity"
+                      className="w-20"
+                    />
+                    <FormControl>
+                      <Switch
+                        checked={threshold.enabled}
+                        onCheckedChange={(enabled) =>
+                          field.onChange({ ...threshold, enabled })
+                        }
+                      />
+                    </FormControl>
+                  </FormItem>
+                );
+              }}
+            />
+          ))}
+          <p className="text-sm text-muted-foreground">
+            Columns: minimum confidence, minimum intensity, enabled
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <FormLabel>Cooldowns (s)</FormLabel>
+            <p className="text-sm text-muted-foreground">
+              Media seconds after an event during which further events of its
+              type are dropped; 0 disables
+            </p>
+          </div>
+
+          {eventTypes.map((type) => (
+            <FormField
+              key={type}
+              control={form.control}
+              name={`eventCooldowns.${type}`}
+              render={({ field }) => (
+                <FormItem className="flex gap-2 items-center">
+                  <FormLabel className="flex-1 font-mono">{type}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={5}
+                      value={field.value ?? 0}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      className="w-20"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="repetition"
+          render={({ field }) => {
+            const repetition =
+              field.value ?? defaultEventDetectorConfig.repetition!;
+            const numbers = [
+              {
+                key: "windowSec",
+                label: "Window (s)",
+                description:
+                  "Media seconds after the end of an event within which a similar one counts as a repeat",
+                step: 5,
+              },
+              {
+                key: "minTriggerOverlap",
+                label: "Trigger Overlap",
+                description:
+                  "Share (0-1) of the smaller trigger set the two events must share",
+                step: 0.1,
+              },
+              {
+                key: "intensityFactor",
+                label: "Intensity Factor",
+                description: "Intensity multiplier for dampened repeats",
+                step: 0.1,
+              },
+            ] as const;
+            return (
+              <FormItem className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <FormLabel>Repetition Suppression</FormLabel>
+                    <FormDescription>
+                      Treat an event with the same type and overlapping triggers
+                      as a repeat of a recent one
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={repetition.enabled}
+                      onCheckedChange={(enabled) =>
+                        field.onChange({ ...repetition, enabled })
+                      }
+                    />
+                  </FormControl>
+                </div>
+                <Select
+                  value={repetition.action}
+                  onValueChange={(action) =>
+                    field.onChange({
+                      ...repetition,
+                      action: action as typeof repetition.action,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select action" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">
+                      Merge into the earlier event
+                    </SelectItem>
+                    <SelectItem value="dampen">Dampen intensity</SelectItem>
+                  </SelectContent>
+                </Select>
+                {numbers.map((number) => (
+                  <div key={number.key} className="space-y-1">
+                    <FormLabel>{number.label}</FormLabel>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={number.step}
+                      value={repetition[number.key]}
+                      onChange={(e) =>
+                        field.onChange({
+                          ...repetition,
+                          [number.key]: e.target.valueAsNumber,
+                        })
+                      }
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      {number.description}
+                    </p>
+                  </div>
+                ))}
                 <FormMessage />
               </FormItem>
-            )}
-          />
-        ))}
+            );
+          }}
+        />
       </form>
     </Form>
   );
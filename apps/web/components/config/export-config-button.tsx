@@ -6,9 +6,16 @@ import {
   commentGeneratorConfigAtom,
   contextBufferConfigAtom,
   decisionEngineConfigAtom,
+  detectionCacheConfigAtom,
+  detectionQueueConfigAtom,
   eventDetectorConfigAtom,
+  noveltyFilterConfigAtom,
+  preFilterConfigAtom,
+  resilienceConfigAtom,
   shortTurnAggregatorConfigAtom,
+  stalenessConfigAtom,
   uncommentedBufferConfigAtom,
+  usageConfigAtom,
 } from "./atom";
 
 export function ExportConfigButton() {
@@ -18,15 +25,29 @@ export function ExportConfigButton() {
   const [contextBufferConfig] = useAtom(contextBufferConfigAtom);
   const [uncommentedBufferConfig] = useAtom(uncommentedBufferConfigAtom);
   const [shortTurnAggregatorConfig] = useAtom(shortTurnAggregatorConfigAtom);
+  const [noveltyFilterConfig] = useAtom(noveltyFilterConfigAtom);
+  const [stalenessConfig] = useAtom(stalenessConfigAtom);
+  const [preFilterConfig] = useAtom(preFilterConfigAtom);
+  const [detectionCacheConfig] = useAtom(detectionCacheConfigAtom);
+  const [detectionQueueConfig] = useAtom(detectionQueueConfigAtom);
+  const [usageConfig] = useAtom(usageConfigAtom);
+  const [resilienceConfig] = useAtom(resilienceConfigAtom);
 
   const exportToJson = () => {
     const config = {
       commentGenerator: commentGeneratorConfig,
       decisionEngine: decisionEngineConfig,
       eventDetector: eventDetectorConfig,
+      detectionQueue: detectionQueueConfig,
       contextBuffer: contextBufferConfig,
       uncommentedBuffer: uncommentedBufferConfig,
       shortTurnAggregator: shortTurnAggregatorConfig,
+      novelty: noveltyFilterConfig,
+      staleness: stalenessConfig,
+      preFilter: preFilterConfig,
+      detectionCache: detectionCacheConfig,
+      usage: usageConfig,
+      resilience: resilienceConfig,
     };
 
     const dataStr = JSON.stringify(config, null, 2);
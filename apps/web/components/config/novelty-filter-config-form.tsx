@@ -0,0 +1,141 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  type NoveltyFilterConfig,
+  NoveltyFilterConfigSchema,
+} from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface NoveltyFilterConfigFormProps {
+  defaultValues: NoveltyFilterConfig;
+  onSubmit: (data: NoveltyFilterConfig) => void | Promise<void>;
+}
+
+export function NoveltyFilterConfigForm({
+  defaultValues,
+  onSubmit,
+}: NoveltyFilterConfigFormProps) {
+  const form = useForm<NoveltyFilterConfig>({
+    resolver: zodResolver(NoveltyFilterConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const fields = [
+    {
+      name: "threshold",
+      label: "Similarity Threshold",
+      description:
+        "Shingle similarity (0-1) at or above which a comment counts as a duplicate",
+      step: 0.05,
+    },
+    {
+      name: "shingleSize",
+      label: "Shingle Size",
+      description: "Character n-gram size used to compare comments",
+      step: 1,
+    },
+    {
+      name: "windowSize",
+      label: "Window Size",
+      description:
+        "Number of recent comments each candidate is compared against",
+      step: 1,
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between">
+              <div className="space-y-1">
+                <FormLabel>Enabled</FormLabel>
+                <FormDescription>
+                  Check generated comments against recent ones before showing
+                  them
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="action"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>On Duplicate</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select action" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="regenerate">Regenerate once</SelectItem>
+                  <SelectItem value="reject">Reject</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {fields.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    {...formField}
+                    onChange={(e) => formField.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { type PreFilterConfig, PreFilterConfigSchema } from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface PreFilterConfigFormProps {
+  defaultValues: PreFilterConfig;
+  onSubmit: (data: PreFilterConfig) => void | Promise<void>;
+}
+
+export function PreFilterConfigForm({
+  defaultValues,
+  onSubmit,
+}: PreFilterConfigFormProps) {
+  const form = useForm<PreFilterConfig>({
+    resolver: zodResolver(PreFilterConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const switches = [
+    {
+      name: "enabled",
+      label: "Enabled",
+      description: "Skip detection on turns that score below the threshold",
+    },
+    {
+      name: "useHeuristic",
+      label: "Use Heuristic Detector",
+      description:
+        "Let questions, exclamations and key phrases found offline raise the score",
+    },
+  ] as const;
+
+  const fields = [
+    {
+      name: "threshold",
+      label: "Threshold",
+      description: "Minimum score (0-1) for a turn to reach the detector",
+      step: 0.05,
+    },
+    {
+      name: "targetWords",
+      label: "Target Words",
+      description:
+        "Content words at which a turn counts as long enough (CJK characters count half)",
+      step: 1,
+    },
+    {
+      name: "noveltyWindow",
+      label: "Novelty Window",
+      description:
+        "Characters of preceding context checked for repetition (0 = off)",
+      step: 100,
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {switches.map((item) => (
+          <FormField
+            key={item.name}
+            control={form.control}
+            name={item.name}
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <FormLabel>{item.label}</FormLabel>
+                  <FormDescription>{item.description}</FormDescription>
+                </div>
+                <FormControl>
+                  <Switch
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {fields.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    {...formField}
+                    onChange={(e) => formField.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="fillerWords"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Filler Words</FormLabel>
+              <FormControl>
+                <Input
+                  value={field.value.join(", ")}
+                  onChange={(e) =>
+                    field.onChange(
+                      e.target.value
+                        .split(/[,，]/)
+                        .map((w) => w.trim())
+                        .filter(Boolean),
+                    )
+                  }
+                />
+              </FormControl>
+              <FormDescription>
+                Comma-separated words that carry no content
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="nonSpeechPattern"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Non-speech Pattern</FormLabel>
+              <FormControl>
+                <Input {...field} className="font-mono" />
+              </FormControl>
+              <FormDescription>
+                Regular expression for tags such as [Music] or (laughs)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
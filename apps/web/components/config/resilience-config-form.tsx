@@ -0,0 +1,125 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  type ResilienceConfig,
+  ResilienceConfigSchema,
+} from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface ResilienceConfigFormProps {
+  defaultValues: ResilienceConfig;
+  onSubmit: (data: ResilienceConfig) => void | Promise<void>;
+}
+
+export function ResilienceConfigForm({
+  defaultValues,
+  onSubmit,
+}: ResilienceConfigFormProps) {
+  const form = useForm<ResilienceConfig>({
+    resolver: zodResolver(ResilienceConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const stages = [
+    { name: "detection", label: "Event Detection" },
+    { name: "generation", label: "Comment Generation" },
+  ] as const;
+
+  const fields = [
+    {
+      name: "timeoutMs",
+      label: "Timeout (ms)",
+      description:
+        "Abort a call that takes longer than this; streams only until the first chunk (0 = none)",
+      step: 1000,
+    },
+    {
+      name: "maxRetries",
+      label: "Max Retries",
+      description: "Retries after a 429, 5xx, network error or timeout",
+      step: 1,
+    },
+    {
+      name: "baseDelayMs",
+      label: "Base Backoff (ms)",
+      description: "Wait before the first retry; doubles with each retry",
+      step: 100,
+    },
+    {
+      name: "maxDelayMs",
+      label: "Max Backoff (ms)",
+      description: "Upper bound for the wait between retries",
+      step: 100,
+    },
+    {
+      name: "jitter",
+      label: "Jitter",
+      description: "Randomly shorten each backoff by up to this fraction (0-1)",
+      step: 0.1,
+    },
+    {
+      name: "failureThreshold",
+      label: "Failure Threshold",
+      description:
+        "Consecutive failed calls that open the circuit (0 = never open)",
+      step: 1,
+    },
+    {
+      name: "resetTimeoutMs",
+      label: "Reset Timeout (ms)",
+      description: "How long an open circuit refuses calls before a trial call",
+      step: 1000,
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {stages.map((stage) => (
+          <div key={stage.name} className="space-y-4">
+            <h4 className="text-base font-medium">{stage.label}</h4>
+            {fields.map((field) => (
+              <FormField
+                key={field.name}
+                control={form.control}
+                name={`${stage.name}.${field.name}`}
+                render={({ field: formField }) => (
+                  <FormItem>
+                    <FormLabel>{field.label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step={field.step}
+                        {...formField}
+                        onChange={(e) =>
+                          formField.onChange(e.target.valueAsNumber)
+                        }
+                      />
+                    </FormControl>
+                    <FormDescription>{field.description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        ))}
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { type StalenessConfig, StalenessConfigSchema } from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface StalenessConfigFormProps {
+  defaultValues: StalenessConfig;
+  onSubmit: (data: StalenessConfig) => void | Promise<void>;
+}
+
+export function StalenessConfigForm({
+  defaultValues,
+  onSubmit,
+}: StalenessConfigFormProps) {
+  const form = useForm<StalenessConfig>({
+    resolver: zodResolver(StalenessConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const fields = [
+    {
+      name: "maxWallMs",
+      label: "Max Queue Time (ms)",
+      description:
+        "Drop a turn queued for longer than this much wall-clock time (0 disables)",
+    },
+    {
+      name: "maxMediaLagSec",
+      label: "Max Media Lag (s)",
+      description:
+        "Drop a turn once playback is this far past its end (0 disables)",
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {fields.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    {...formField}
+                    onChange={(e) => formField.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </form>
+    </Form>
+  );
+}
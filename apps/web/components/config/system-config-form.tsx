@@ -1,20 +1,35 @@
 "use client";
 
+import { migrateEventDetectorConfig } from "@prof/ai-reaction";
 import { useAtom } from "jotai";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   commentGeneratorConfigAtom,
   contextBufferConfigAtom,
   decisionEngineConfigAtom,
+  detectionCacheConfigAtom,
+  detectionQueueConfigAtom,
   eventDetectorConfigAtom,
+  noveltyFilterConfigAtom,
+  preFilterConfigAtom,
+  resilienceConfigAtom,
   shortTurnAggregatorConfigAtom,
+  stalenessConfigAtom,
   uncommentedBufferConfigAtom,
+  usageConfigAtom,
 } from "./atom";
 import { CommentGeneratorConfigForm } from "./comment-generator-config-form";
 import { DecisionEngineConfigForm } from "./decision-engine-config-form";
+import { DetectionCacheConfigForm } from "./detection-cache-config-form";
+import { DetectionQueueConfigForm } from "./detection-queue-config-form";
 import { EventDetectorConfigForm } from "./event-detector-config-form";
+import { NoveltyFilterConfigForm } from "./novelty-filter-config-form";
+import { PreFilterConfigForm } from "./pre-filter-config-form";
+import { ResilienceConfigForm } from "./resilience-config-form";
 import { ShortTurnAggregatorConfigForm } from "./short-turn-aggregator-config-form";
+import { StalenessConfigForm } from "./staleness-config-form";
 import { TextBufferConfigForm } from "./text-buffer-config-form";
+import { UsageConfigForm } from "./usage-config-form";
 
 function CommentGeneratorSection() {
   const [config, setConfig] = useAtom(commentGeneratorConfigAtom);
@@ -32,6 +47,22 @@ function CommentGeneratorSection() {
   );
 }
 
+function NoveltyFilterSection() {
+  const [config, setConfig] = useAtom(noveltyFilterConfigAtom);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Novelty Filter</h3>
+        <p className="text-sm text-muted-foreground">
+          Suppress comments that repeat what was already said.
+        </p>
+      </div>
+      <NoveltyFilterConfigForm defaultValues={config} onSubmit={setConfig} />
+    </div>
+  );
+}
+
 function DecisionEngineSection() {
   const [config, setConfig] = useAtom(decisionEngineConfigAtom);
   console.log("DecisionEngineSection default config", config);
@@ -51,16 +82,51 @@ function DecisionEngineSection() {
 
 function EventDetectionSection() {
   const [config, setConfig] = useAtom(eventDetectorConfigAtom);
+  const [preFilterConfig, setPreFilterConfig] = useAtom(preFilterConfigAtom);
+  const [detectionCacheConfig, setDetectionCacheConfig] = useAtom(
+    detectionCacheConfigAtom,
+  );
 
   return (
-    <div className="space-y-4">
-      <div>
-        <h3 className="text-lg font-medium">Event Detection</h3>
-        <p className="text-sm text-muted-foreground">
-          Configure event detection patterns and sensitivity.
-        </p>
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Event Detection</h3>
+          <p className="text-sm text-muted-foreground">
+            Configure event detection patterns and sensitivity.
+          </p>
+        </div>
+        <EventDetectorConfigForm
+          defaultValues={migrateEventDetectorConfig(config)}
+          onSubmit={setConfig}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-base font-medium">Pre-filter</h4>
+          <p className="text-sm text-muted-foreground">
+            Skip detection on low-signal turns such as [Music] or uh-huh.
+          </p>
+        </div>
+        <PreFilterConfigForm
+          defaultValues={preFilterConfig}
+          onSubmit={setPreFilterConfig}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-base font-medium">Cache</h4>
+          <p className="text-sm text-muted-foreground">
+            Reuse detection results for text that was already analyzed.
+          </p>
+        </div>
+        <DetectionCacheConfigForm
+          defaultValues={detectionCacheConfig}
+          onSubmit={setDetectionCacheConfig}
+        />
       </div>
-      <EventDetectorConfigForm defaultValues={config} onSubmit={setConfig} />
     </div>
   );
 }
@@ -113,19 +179,82 @@ function TextBuffersSection() {
 
 function TurnAggregationSection() {
   const [config, setConfig] = useAtom(shortTurnAggregatorConfigAtom);
+  const [stalenessConfig, setStalenessConfig] = useAtom(stalenessConfigAtom);
+  const [queueConfig, setQueueConfig] = useAtom(detectionQueueConfigAtom);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Turn Aggregation</h3>
+          <p className="text-sm text-muted-foreground">
+            Configure short turn aggregation behavior.
+          </p>
+        </div>
+        <ShortTurnAggregatorConfigForm
+          defaultValues={config}
+          onSubmit={setConfig}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-base font-medium">Staleness</h4>
+          <p className="text-sm text-muted-foreground">
+            Drop queued turns the system can no longer comment on in time.
+          </p>
+        </div>
+        <StalenessConfigForm
+          defaultValues={stalenessConfig}
+          onSubmit={setStalenessConfig}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-base font-medium">Detection Queue</h4>
+          <p className="text-sm text-muted-foreground">
+            Handle turns that arrive while a detection is still running.
+          </p>
+        </div>
+        <DetectionQueueConfigForm
+          defaultValues={queueConfig}
+          onSubmit={setQueueConfig}
+        />
+      </div>
+    </div>
+  );
+}
+
+function UsageSection() {
+  const [config, setConfig] = useAtom(usageConfigAtom);
 
   return (
     <div className="space-y-4">
       <div>
-        <h3 className="text-lg font-medium">Turn Aggregation</h3>
+        <h3 className="text-lg font-medium">Budget</h3>
         <p className="text-sm text-muted-foreground">
-          Configure short turn aggregation behavior.
+          Limit token spend per session and choose what happens when it runs
+          out.
         </p>
       </div>
-      <ShortTurnAggregatorConfigForm
-        defaultValues={config}
-        onSubmit={setConfig}
-      />
+      <UsageConfigForm defaultValues={config} onSubmit={setConfig} />
+    </div>
+  );
+}
+
+function ResilienceSection() {
+  const [config, setConfig] = useAtom(resilienceConfigAtom);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Retries</h3>
+        <p className="text-sm text-muted-foreground">
+          Time out, retry and temporarily stop calling failing providers.
+        </p>
+      </div>
+      <ResilienceConfigForm defaultValues={config} onSubmit={setConfig} />
     </div>
   );
 }
@@ -133,18 +262,25 @@ function TurnAggregationSection() {
 export function SystemConfigForm() {
   return (
     <Tabs defaultValue="comment-generation" className="w-full">
-      <TabsList className="grid w-full grid-cols-5">
+      <TabsList className="grid w-full grid-cols-8">
         <TabsTrigger value="comment-generation">Comments</TabsTrigger>
+        <TabsTrigger value="novelty-filter">Novelty</TabsTrigger>
         <TabsTrigger value="decision-engine">Decisions</TabsTrigger>
         <TabsTrigger value="event-detection">Events</TabsTrigger>
         <TabsTrigger value="text-buffers">Buffers</TabsTrigger>
         <TabsTrigger value="turn-aggregation">Turns</TabsTrigger>
+        <TabsTrigger value="usage">Budget</TabsTrigger>
+        <TabsTrigger value="resilience">Retries</TabsTrigger>
       </TabsList>
 
       <TabsContent value="comment-generation">
         <CommentGeneratorSection />
       </TabsContent>
 
+      <TabsContent value="novelty-filter">
+        <NoveltyFilterSection />
+      </TabsContent>
+
       <TabsContent value="decision-engine">
         <DecisionEngineSection />
       </TabsContent>
@@ -160,6 +296,14 @@ export function SystemConfigForm() {
       <TabsContent value="turn-aggregation">
         <TurnAggregationSection />
       </TabsContent>
+
+      <TabsContent value="usage">
+        <UsageSection />
+      </TabsContent>
+
+      <TabsContent value="resilience">
+        <ResilienceSection />
+      </TabsContent>
     </Tabs>
   );
 }
@@ -0,0 +1,149 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { type UsageConfig, UsageConfigSchema } from "@prof/ai-reaction";
+import { useForm } from "react-hook-form";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAutoSubmit } from "./use-auto-submit";
+
+interface UsageConfigFormProps {
+  defaultValues: UsageConfig;
+  onSubmit: (data: UsageConfig) => void | Promise<void>;
+}
+
+export function UsageConfigForm({
+  defaultValues,
+  onSubmit,
+}: UsageConfigFormProps) {
+  const form = useForm<UsageConfig>({
+    resolver: zodResolver(UsageConfigSchema),
+    defaultValues,
+    mode: "onChange",
+  });
+
+  useAutoSubmit(form, onSubmit);
+
+  const limits = [
+    {
+      name: "maxCostUsd",
+      label: "Max Cost (USD)",
+      description: "Session budget in US dollars (0 = unlimited)",
+      step: 0.01,
+    },
+    {
+      name: "maxTokens",
+      label: "Max Tokens",
+      description: "Session budget in input + output tokens (0 = unlimited)",
+      step: 1000,
+    },
+  ] as const;
+
+  const models = [
+    {
+      name: "downgradeDetectionModel",
+      label: "Downgrade Detection Model",
+      description: "Detection model once over budget (same provider)",
+    },
+    {
+      name: "downgradeCommentModel",
+      label: "Downgrade Comment Model",
+      description:
+        "Selector and writer model once over budget (their configured providers)",
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {limits.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    {...formField}
+                    onChange={(e) => formField.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="onBudgetExceeded"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>When Exceeded</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select action" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="downgrade">
+                    Switch to cheaper models (stops if none set)
+                  </SelectItem>
+                  <SelectItem value="stop">
+                    Stop detecting and commenting
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {models.map((field) => (
+          <FormField
+            key={field.name}
+            control={form.control}
+            name={field.name}
+            render={({ field: formField }) => (
+              <FormItem>
+                <FormLabel>{field.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    {...formField}
+                    value={formField.value ?? ""}
+                    onChange={(e) =>
+                      formField.onChange(e.target.value || undefined)
+                    }
+                  />
+                </FormControl>
+                <FormDescription>{field.description}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </form>
+    </Form>
+  );
+}
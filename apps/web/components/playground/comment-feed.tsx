@@ -1,13 +1,14 @@
 "use client";
 
 import type { Comment, Turn } from "@prof/ai-reaction";
-import { Check, Loader2, X } from "lucide-react";
+import { Ban, Check, Loader2, X } from "lucide-react";
 
 interface CommentWithStatus extends Comment {
   turn: Turn;
-  status: "generating" | "completed" | "rejected";
+  status: "generating" | "completed" | "rejected" | "cancelled";
   partialText?: string;
   rejectionReason?: string;
+  cancelReason?: string;
 }
 
 interface CommentFeedProps {
@@ -37,6 +38,8 @@ export function CommentFeed({ comments }: CommentFeedProps) {
                 return <Check className="w-3 h-3 text-green-500" />;
               case "rejected":
                 return <X className="w-3 h-3 text-red-500" />;
+              case "cancelled":
+                return <Ban className="w-3 h-3 text-muted-foreground" />;
             }
           };
 
@@ -55,6 +58,8 @@ export function CommentFeed({ comments }: CommentFeedProps) {
                 return "border-green-200";
               case "rejected":
                 return "border-red-200";
+              case "cancelled":
+                return "border-dashed";
               default:
                 return "border";
             }
@@ -82,6 +87,11 @@ export function CommentFeed({ comments }: CommentFeedProps) {
                   Rejected: {comment.rejectionReason}
                 </div>
               )}
+              {comment.status === "cancelled" && comment.cancelReason && (
+                <div className="text-xs text-muted-foreground mt-1 italic">
+                  Cancelled: {comment.cancelReason}
+                </div>
+              )}
               {comment.status === "completed" && (
                 <div className="text-xs text-muted-foreground mt-1">
                   Generated in {Math.round(comment.generationTime)}ms
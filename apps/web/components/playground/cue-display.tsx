@@ -1,18 +1,71 @@
 "use client";
 
-import type { Turn } from "@prof/ai-reaction";
-import { useEffect, useRef } from "react";
+import type { Event, Turn } from "@prof/ai-reaction";
+import { type ReactNode, useEffect, useMemo, useRef } from "react";
 
 interface CueDisplayProps {
   turns: Turn[];
   activeTurns: Set<string>;
+  /** Detected events; their triggers are highlighted in the cues they refer to */
+  events?: Event[];
   onSeek?: (time: number) => void;
 }
 
-export function CueDisplay({ turns, activeTurns, onSeek }: CueDisplayProps) {
+interface Highlight {
+  start: number;
+  end: number;
+  label: string;
+}
+
+/** `content` with the highlighted ranges wrapped in marks; overlapping ranges keep the first */
+function highlight(content: string, highlights: Highlight[]): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+  for (const { start, end, label } of [...highlights].sort(
+    (a, b) => a.start - b.start,
+  )) {
+    if (start < position) continue;
+    nodes.push(content.slice(position, start));
+    nodes.push(
+      <mark
+        key={`${start}-${end}`}
+        title={label}
+        className="bg-yellow-200 dark:bg-yellow-800 rounded px-0.5"
+      >
+        {content.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  nodes.push(content.slice(position));
+  return nodes;
+}
+
+export function CueDisplay({
+  turns,
+  activeTurns,
+  events = [],
+  onSeek,
+}: CueDisplayProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const activeCueRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
 
+  const highlightsByTurn = useMemo(() => {
+    const byTurn = new Map<string, Highlight[]>();
+    for (const event of events) {
+      for (const span of event.triggerSpans ?? []) {
+        const highlights = byTurn.get(span.turnId) ?? [];
+        highlights.push({
+          start: span.start,
+          end: span.end,
+          label: `${event.type} (${(event.confidence * 100).toFixed(0)}%)`,
+        });
+        byTurn.set(span.turnId, highlights);
+      }
+    }
+    return byTurn;
+  }, [events]);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -75,8 +128,11 @@ export function CueDisplay({ turns, activeTurns, onSeek }: CueDisplayProps) {
           >
             <span className="block text-xs text-muted-foreground">
               {formatTime(turn.startTime)} - {formatTime(turn.endTime)}
+              {turn.speaker && ` · ${turn.speaker.name ?? turn.speaker.id}`}
+            </span>
+            <span className="block text-sm">
+              {highlight(turn.content, highlightsByTurn.get(turn.id) ?? [])}
             </span>
-            <span className="block text-sm">{turn.content}</span>
           </button>
         );
       })}
@@ -1,16 +1,50 @@
 "use client";
 
-import type { Decision, Event, Turn } from "@prof/ai-reaction";
+import type {
+  CircuitState,
+  Decision,
+  Event,
+  FilteredEvent,
+  ResilienceStage,
+  Turn,
+  UsageTotals,
+} from "@prof/ai-reaction";
 import { Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
+interface SkippedDetection {
+  reason: string;
+  score: number;
+}
+
+interface BudgetExceeded {
+  reason: string;
+  action: "downgrade" | "stop";
+  total: UsageTotals;
+}
+
+interface CircuitChange {
+  stage: ResilienceStage;
+  state: CircuitState;
+  previous: CircuitState;
+  /** Fallback detection provider, absent for the stage's own circuit */
+  fallback?: string;
+}
+
 interface LogEntry {
   id: string;
-  type: "event" | "decision";
+  type: "event" | "filtered" | "decision" | "skipped" | "budget" | "circuit";
   timestamp: number;
-  turn: Turn;
-  data: Event | Decision;
+  /** Null for session-level entries not tied to a turn */
+  turn: Turn | null;
+  data:
+    | Event
+    | FilteredEvent
+    | Decision
+    | SkippedDetection
+    | BudgetExceeded
+    | CircuitChange;
   processingTimeMs: number;
 }
 
@@ -28,6 +62,9 @@ export function LoggerSection({ entries, onExport }: LoggerSectionProps) {
 
   const formatConfidence = (value: number) => `${(value * 100).toFixed(1)}%`;
 
+  const formatAt = (entry: LogEntry) =>
+    entry.turn ? `@${formatTime(entry.turn.endTime)}` : "";
+
   const renderEvent = (entry: LogEntry) => {
     const event = entry.data as Event;
     return (
@@ -42,15 +79,27 @@ export function LoggerSection({ entries, onExport }: LoggerSectionProps) {
             </span>
           </div>
           <span className="text-xs text-muted-foreground">
-            @{formatTime(entry.turn.endTime)}
+            {formatAt(entry)}
           </span>
         </div>
         <div className="text-sm space-y-1">
           <div>Confidence: {formatConfidence(event.confidence)}</div>
           <div>Intensity: {formatConfidence(event.intensity)}</div>
+          {event.provider && (
+            <div>
+              Provider: {event.provider}
+              {event.metadata?.model && ` (${event.metadata.model})`}
+            </div>
+          )}
+          <div>
+            Span: {formatTime(event.startTime)} - {formatTime(event.endTime)}
+          </div>
           {event.triggers.length > 0 && (
             <div>Triggers: {event.triggers.join(", ")}</div>
           )}
+          {event.metadata?.repeatOf && (
+            <div>Repeat of {event.metadata.repeatOf} (intensity dampened)</div>
+          )}
           {event.metadata?.reasoning && (
             <div className="text-muted-foreground italic">
               {event.metadata.reasoning}
@@ -64,6 +113,104 @@ export function LoggerSection({ entries, onExport }: LoggerSectionProps) {
     );
   };
 
+  const renderFiltered = (entry: LogEntry) => {
+    const { event, reason } = entry.data as FilteredEvent;
+    return (
+      <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded border border-dashed">
+        <div className="flex justify-between items-start mb-2">
+          <div className="flex gap-2">
+            <span className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded">
+              FILTERED
+            </span>
+            <span className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded">
+              {event.type}
+            </span>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {formatAt(entry)}
+          </span>
+        </div>
+        <div className="text-sm space-y-1">
+          <div>
+            Confidence: {formatConfidence(event.confidence)}, Intensity:{" "}
+            {formatConfidence(event.intensity)}
+          </div>
+          <div className="text-muted-foreground italic">{reason}</div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSkipped = (entry: LogEntry) => {
+    const skipped = entry.data as SkippedDetection;
+    return (
+      <div className="p-3 bg-gray-50 dark:bg-gray-900 rounded border border-dashed">
+        <div className="flex justify-between items-start mb-2">
+          <span className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded">
+            SKIPPED
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {formatAt(entry)}
+          </span>
+        </div>
+        <div className="text-sm space-y-1">
+          <div className="truncate">{entry.turn?.content}</div>
+          <div className="text-muted-foreground italic">
+            {skipped.reason} (score {formatConfidence(skipped.score)})
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderBudget = (entry: LogEntry) => {
+    const { reason, action, total } = entry.data as BudgetExceeded;
+    return (
+      <div className="p-3 bg-amber-50 dark:bg-amber-950 rounded border">
+        <div className="flex gap-2 mb-2">
+          <span className="text-xs bg-amber-200 dark:bg-amber-800 px-2 py-1 rounded">
+            BUDGET
+          </span>
+          <span className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded">
+            {action === "stop" ? "STOPPED" : "DOWNGRADED"}
+          </span>
+        </div>
+        <div className="text-sm space-y-1">
+          <div>
+            Spent ${total.costUsd.toFixed(4)},{" "}
+            {total.inputTokens + total.outputTokens} tokens
+          </div>
+          <div className="text-muted-foreground italic">{reason}</div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderCircuit = (entry: LogEntry) => {
+    const { stage, state, previous, fallback } = entry.data as CircuitChange;
+    return (
+      <div
+        className={`p-3 rounded border ${
+          state === "closed"
+            ? "bg-green-50 dark:bg-green-950"
+            : "bg-red-50 dark:bg-red-950"
+        }`}
+      >
+        <div className="flex gap-2 mb-2">
+          <span className="text-xs bg-red-200 dark:bg-red-800 px-2 py-1 rounded">
+            CIRCUIT
+          </span>
+          <span className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded">
+            {fallback ? `${stage}: ${fallback}` : stage}
+          </span>
+        </div>
+        <div className="text-sm">
+          {previous} → {state}
+        </div>
+      </div>
+    );
+  };
+
   const renderDecision = (entry: LogEntry) => {
     const decision = entry.data as Decision;
     return (
@@ -87,7 +234,7 @@ export function LoggerSection({ entries, onExport }: LoggerSectionProps) {
             </span>
           </div>
           <span className="text-xs text-muted-foreground">
-            @{formatTime(entry.turn.endTime)}
+            {formatAt(entry)}
           </span>
         </div>
         <div className="text-sm space-y-1">
@@ -143,7 +290,15 @@ export function LoggerSection({ entries, onExport }: LoggerSectionProps) {
                 <div key={entry.id}>
                   {entry.type === "event"
                     ? renderEvent(entry)
-                    : renderDecision(entry)}
+                    : entry.type === "filtered"
+                      ? renderFiltered(entry)
+                      : entry.type === "skipped"
+                        ? renderSkipped(entry)
+                        : entry.type === "budget"
+                          ? renderBudget(entry)
+                          : entry.type === "circuit"
+                            ? renderCircuit(entry)
+                            : renderDecision(entry)}
                 </div>
               ))
           )}
@@ -58,6 +58,8 @@ export class Player implements Disposable {
 
   seekTo(time: number) {
     this.currentTime = Math.max(0, time);
+    // Cues interrupted by the jump never complete
+    this.activeTurns.clear();
     this.emitter.emit("seek", this.currentTime);
   }
 
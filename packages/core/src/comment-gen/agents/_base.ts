@@ -1,4 +1,4 @@
-import { Agent } from "@openai/agents-core";
+import { Agent, type Model } from "@openai/agents-core";
 import { RECOMMENDED_PROMPT_PREFIX } from "@openai/agents-core/extensions";
 import z from "zod/v4";
 import { zodAgentFormat } from "../../lib/zod4-schema.js";
@@ -15,7 +15,7 @@ export function buildCommentAgent({
   instructions: string;
   minLength: number;
   maxLength: number;
-  model?: string;
+  model?: string | Model;
 }): CommentAgent {
   const schema = z.object({
     reject: z.literal(false),
@@ -27,6 +27,7 @@ export function buildCommentAgent({
     instructions: [
       RECOMMENDED_PROMPT_PREFIX,
       instructions,
+      'previousComments lists what has already been said to the audience. Never repeat a point made there; if it is relevant, build on it and refer back briefly (e.g. "as noted earlier…") instead of restating it.',
       // use prompt suggestion for max length instead of schema, although llm may not strictly follow it
       `The comment should be no longer than ${maxLength} characters, and should be no shorter than ${minLength} characters`,
     ].join("\n\n"),
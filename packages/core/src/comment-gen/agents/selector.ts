@@ -1,4 +1,4 @@
-import { Agent } from "@openai/agents";
+import { Agent, type Model } from "@openai/agents";
 import { RECOMMENDED_PROMPT_PREFIX } from "@openai/agents-core/extensions";
 import z from "zod/v4";
 import { zodAgentFormat } from "../../lib/zod4-schema.js";
@@ -17,7 +17,7 @@ export default function buildCommentGenerator({
   selectorInstructions = "",
 }: {
   writers: CommentAgent[];
-  selectorModel?: string;
+  selectorModel?: string | Model;
   selectorInstructions?: string;
 }) {
   if (writers.length === 0) {
@@ -27,7 +27,7 @@ export default function buildCommentGenerator({
     name: "style-selector",
     instructions: [
       RECOMMENDED_PROMPT_PREFIX,
-      "You choose the best comment style given the provided conversation context, then hand off to that style writer. If the current context is not suitable for generating a comment (e.g., insufficient content, off-topic, unsafe, or nothing meaningful to add), do not hand off—return a comment-rejection with { reject: true, reason } explaining why.",
+      "You choose the best comment style given the provided conversation context, then hand off to that style writer. If the current context is not suitable for generating a comment (e.g., insufficient content, off-topic, unsafe, nothing meaningful to add, or previousComments already cover it), do not hand off—return a comment-rejection with { reject: true, reason } explaining why.",
       selectorInstructions,
     ]
       .filter(Boolean)
@@ -11,7 +11,31 @@ export const CommentAgentConfigSchema = z.object({
   instructions: z.string().describe("Instructions for the comment agent"),
   minLength: z.number().min(0).describe("Minimum length of generated comments"),
   maxLength: z.number().min(0).describe("Maximum length of generated comments"),
-  model: z.string().optional().describe("Model to use for comment generation"),
+  model: z
+    .string()
+    .optional()
+    .describe(
+      "Model to use for comment generation (defaults to gpt-4o-mini on OpenAI, otherwise the selector model)",
+    ),
+  provider: z
+    .string()
+    .optional()
+    .describe(
+      "Model provider id for this writer (defaults to selectorProvider)",
+    ),
+});
+
+export const CommentProviderOptionsSchema = z.object({
+  baseURL: z
+    .string()
+    .optional()
+    .describe(
+      "Override the API base URL, e.g. http://localhost:8080/v1 for a local OpenAI-compatible server",
+    ),
+  headers: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Extra HTTP headers sent with every request"),
 });
 
 export const CommentGeneratorConfigSchema = z.object({
@@ -19,18 +43,43 @@ export const CommentGeneratorConfigSchema = z.object({
     .array(CommentAgentConfigSchema)
     .describe("Array of comment agent configurations"),
   selectorModel: z.string().describe("Model to use for selecting comments"),
+  selectorProvider: z
+    .string()
+    .optional()
+    .describe(
+      "Model provider id for the selector (built-in: openai, google, openai-compatible)",
+    ),
+  providers: z
+    .record(z.string(), CommentProviderOptionsSchema)
+    .optional()
+    .describe(
+      "Options per model provider id, e.g. the openai-compatible base URL",
+    ),
   selectorInstructions: z
     .string()
     .describe("Instructions for comment selection"),
+  historyDepth: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      "Number of previous comments shown to writers so they can build on them instead of repeating",
+    ),
 });
 
 export const defaultCommentGeneratorConfig: CommentGeneratorConfig = {
   writers: [],
   selectorModel: "gpt-5-mini",
+  selectorProvider: "openai",
   selectorInstructions: "",
+  historyDepth: 3,
 };
 
 export type CommentAgentConfig = z.output<typeof CommentAgentConfigSchema>;
 export type CommentGeneratorConfig = z.output<
   typeof CommentGeneratorConfigSchema
 >;
+export type CommentProviderOptions = z.output<
+  typeof CommentProviderOptionsSchema
+>;
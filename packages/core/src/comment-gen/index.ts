@@ -4,6 +4,17 @@ export {
   CommentAgentConfigSchema,
   type CommentGeneratorConfig,
   CommentGeneratorConfigSchema,
+  type CommentProviderOptions,
+  CommentProviderOptionsSchema,
   defaultCommentGeneratorConfig,
 } from "./def.js";
+export {
+  type CommentModelProvider,
+  type CommentModelProviderContext,
+  type CommentModelProviderFactory,
+  CommentModels,
+  listCommentModelProviders,
+  OpenAICommentModelProvider,
+  registerCommentModelProvider,
+} from "./providers/index.js";
 export { type GenerationContext, generateComment } from "./service.js";
@@ -0,0 +1,21 @@
+import type { Model } from "@openai/agents-core";
+import type { ApiKeys } from "../../config.js";
+import type { CommentProviderOptions } from "../def.js";
+
+/**
+ * A backend that hands out agent models for writers and the selector.
+ * Instances are created once per `CommentModels` and may keep their SDK client around.
+ */
+export interface CommentModelProvider {
+  readonly id: string;
+  getModel(model: string): Model;
+}
+
+export interface CommentModelProviderContext {
+  apiKeys: ApiKeys;
+  options: CommentProviderOptions;
+}
+
+export type CommentModelProviderFactory = (
+  context: CommentModelProviderContext,
+) => CommentModelProvider;
@@ -0,0 +1,71 @@
+import type { Model } from "@openai/agents-core";
+import type { ApiKeys } from "../../config.js";
+import type { CommentProviderOptions } from "../def.js";
+import type {
+  CommentModelProvider,
+  CommentModelProviderFactory,
+} from "./_base.js";
+import {
+  geminiCommentModelProvider,
+  openaiCommentModelProvider,
+  openaiCompatibleCommentModelProvider,
+} from "./openai.js";
+
+export type {
+  CommentModelProvider,
+  CommentModelProviderContext,
+  CommentModelProviderFactory,
+} from "./_base.js";
+export { OpenAICommentModelProvider } from "./openai.js";
+
+const registry = new Map<string, CommentModelProviderFactory>([
+  ["openai", openaiCommentModelProvider],
+  ["google", geminiCommentModelProvider],
+  ["openai-compatible", openaiCompatibleCommentModelProvider],
+]);
+
+/**
+ * Register a provider under `id` so writers and the selector can target it.
+ * Registering an existing id replaces it.
+ */
+export function registerCommentModelProvider(
+  id: string,
+  factory: CommentModelProviderFactory,
+): void {
+  registry.set(id, factory);
+}
+
+export function listCommentModelProviders(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Resolves `(provider, model)` pairs to agent models,
+ * creating each provider (and its SDK client) once on first use.
+ */
+export class CommentModels {
+  private providers = new Map<string, CommentModelProvider>();
+
+  constructor(
+    private apiKeys: ApiKeys,
+    private options: Record<string, CommentProviderOptions> = {},
+  ) {}
+
+  get(providerId: string, model: string): Model {
+    let provider = this.providers.get(providerId);
+    if (!provider) {
+      const factory = registry.get(providerId);
+      if (!factory) {
+        throw new Error(
+          `Unknown comment model provider "${providerId}", registered: ${listCommentModelProviders().join(", ")}`,
+        );
+      }
+      provider = factory({
+        apiKeys: this.apiKeys,
+        options: this.options[providerId] ?? {},
+      });
+      this.providers.set(providerId, provider);
+    }
+    return provider.getModel(model);
+  }
+}
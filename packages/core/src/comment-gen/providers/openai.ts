@@ -0,0 +1,96 @@
+import {
+  type Model,
+  OpenAIChatCompletionsModel,
+  OpenAIResponsesModel,
+} from "@openai/agents";
+import { OpenAI } from "openai";
+import type {
+  CommentModelProvider,
+  CommentModelProviderFactory,
+} from "./_base.js";
+
+const GEMINI_OPENAI_BASE_URL =
+  "https://generativelanguage.googleapis.com/v1beta/openai/";
+
+/**
+ * Serves agent models from an OpenAI SDK client owned by this provider,
+ * so different systems never share or overwrite a process-global client.
+ * Clients are built without SDK retries; the resilience policy retries instead.
+ */
+export class OpenAICommentModelProvider implements CommentModelProvider {
+  constructor(
+    readonly id: string,
+    private client: OpenAI,
+    private api: "responses" | "chat_completions",
+  ) {}
+
+  getModel(model: string): Model {
+    // biome-ignore lint/suspicious/noExplicitAny: agents-openai is typed against the CJS build of OpenAI
+    const client = this.client as any;
+    return this.api === "responses"
+      ? new OpenAIResponsesModel(client, model)
+      : new OpenAIChatCompletionsModel(client, model);
+  }
+}
+
+export const openaiCommentModelProvider: CommentModelProviderFactory = ({
+  apiKeys,
+  options,
+}) => {
+  if (!apiKeys.openai) {
+    throw new Error("OpenAI API key is required for the openai provider");
+  }
+  return new OpenAICommentModelProvider(
+    "openai",
+    new OpenAI({
+      apiKey: apiKeys.openai,
+      baseURL: options.baseURL,
+      defaultHeaders: options.headers,
+      dangerouslyAllowBrowser: true,
+      maxRetries: 0,
+    }),
+    "responses",
+  );
+};
+
+/** Gemini through its OpenAI-compatible Chat Completions endpoint */
+export const geminiCommentModelProvider: CommentModelProviderFactory = ({
+  apiKeys,
+  options,
+}) => {
+  if (!apiKeys.google) {
+    throw new Error("Google API key is required for the google provider");
+  }
+  return new OpenAICommentModelProvider(
+    "google",
+    new OpenAI({
+      apiKey: apiKeys.google,
+      baseURL: options.baseURL ?? GEMINI_OPENAI_BASE_URL,
+      defaultHeaders: options.headers,
+      dangerouslyAllowBrowser: true,
+      maxRetries: 0,
+    }),
+    "chat_completions",
+  );
+};
+
+export const openaiCompatibleCommentModelProvider: CommentModelProviderFactory =
+  ({ apiKeys, options }) => {
+    if (!options.baseURL) {
+      throw new Error(
+        'providers["openai-compatible"].baseURL is required for the openai-compatible provider',
+      );
+    }
+    return new OpenAICommentModelProvider(
+      "openai-compatible",
+      new OpenAI({
+        // Local servers usually ignore the key, but the SDK refuses to start without one
+        apiKey: apiKeys.openaiCompatible || "not-needed",
+        baseURL: options.baseURL,
+        defaultHeaders: options.headers,
+        dangerouslyAllowBrowser: true,
+        maxRetries: 0,
+      }),
+      "chat_completions",
+    );
+  };
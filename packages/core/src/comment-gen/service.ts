@@ -1,9 +1,20 @@
-import { run, setDefaultOpenAIClient } from "@openai/agents";
-import type OpenAI from "openai";
-import type { Comment, Event } from "../type.js";
+import { run } from "@openai/agents";
+import type { ApiKeys } from "../config.js";
+import { speakerLabel } from "../lib/speaker.js";
+import { type ResilientCaller, ResilientModel } from "../resilience/index.js";
+import type { Comment, Event, Speaker } from "../type.js";
+import {
+  type TokenUsage,
+  UsageRecordingModel,
+  type UsageSource,
+} from "../usage/index.js";
 import { buildCommentAgent } from "./agents/_base.js";
 import buildCommentGenerator from "./agents/selector.js";
 import type { CommentGeneratorConfig } from "./def.js";
+import { CommentModels } from "./providers/index.js";
+
+const DEFAULT_OPENAI_WRITER_MODEL = "gpt-4o-mini";
+const DEFAULT_HISTORY_DEPTH = 3;
 
 export async function generateComment(
   context: GenerationContext,
@@ -12,29 +23,54 @@ export async function generateComment(
     writers,
     selectorInstructions,
     selectorModel,
-    openaiClient,
+    selectorProvider = "openai",
+    providers,
+    historyDepth = DEFAULT_HISTORY_DEPTH,
+    apiKeys = {},
+    models = new CommentModels(apiKeys, providers),
+    onUsage,
+    resilience,
   }: CommentGeneratorConfig & {
     signal?: AbortSignal;
-    openaiClient?: OpenAI;
+    apiKeys?: ApiKeys;
+    /** Shared model resolver; created from `apiKeys` and `providers` when omitted */
+    models?: CommentModels;
+    /** Called with the tokens of each request; `stage` is `selector` or the writer name */
+    onUsage?: (source: UsageSource, usage: TokenUsage) => void;
+    /** Timeouts, retries and circuit breaking for model requests */
+    resilience?: ResilientCaller;
   },
 ) {
-  if (!openaiClient) {
-    throw new Error("OpenAI API key is required to generate a comment");
-  }
-  // biome-ignore lint/suspicious/noExplicitAny: setDefaultOpenAIClient expects any
-  setDefaultOpenAIClient(openaiClient as any);
-  const userInput = buildUserInput(context);
+  const getModel = (stage: string, provider: string, model: string) => {
+    let resolved = models.get(provider, model);
+    if (resilience) resolved = new ResilientModel(resolved, resilience);
+    return onUsage
+      ? new UsageRecordingModel(resolved, (usage) =>
+          onUsage({ stage, provider, model }, usage),
+        )
+      : resolved;
+  };
+  const userInput = buildUserInput(context, historyDepth);
   const agent = buildCommentGenerator({
-    writers: writers.map((w) => buildCommentAgent(w)),
+    writers: writers.map((w) => {
+      const provider = w.provider ?? selectorProvider;
+      const model =
+        w.model ??
+        (provider === "openai" ? DEFAULT_OPENAI_WRITER_MODEL : selectorModel);
+      return buildCommentAgent({
+        ...w,
+        model: getModel(w.name, provider, model),
+      });
+    }),
     selectorInstructions,
-    selectorModel,
+    selectorModel: getModel("selector", selectorProvider, selectorModel),
   });
 
   const response = await run(agent, userInput, { signal, stream: true });
   return response;
 }
 
-function buildUserInput(ctx: GenerationContext): string {
+function buildUserInput(ctx: GenerationContext, historyDepth: number): string {
   const eventDescriptions = ctx.events
     .slice(0, 5)
     .map((e) => `${e.type}: ${e.triggers.join(", ")}`)
@@ -42,25 +78,46 @@ function buildUserInput(ctx: GenerationContext): string {
 
   const recentUncommented =
     ctx.uncommentedText?.slice(-600) || ctx.historicalText.slice(-400);
-  const previousCommentsContext = ctx.previousComments
-    .slice(-3)
-    .map((c) => `"${c.content}" (${c.writer})`)
-    .join("; ");
+  const previousComments =
+    historyDepth > 0
+      ? ctx.previousComments.slice(-historyDepth).map((c) => ({
+          at: formatMediaTime(c.metadata?.timestamp),
+          writer: c.writer,
+          content: c.content,
+        }))
+      : [];
 
   return JSON.stringify({
     current: ctx.currentText,
+    ...(ctx.currentSpeaker && { speaker: speakerLabel(ctx.currentSpeaker) }),
     recent: recentUncommented,
     history: ctx.historicalText,
     events: eventDescriptions || "General",
-    previousComments: previousCommentsContext || "None",
-    goal: "Generate a single comment that helps the audience understand and appreciate this moment.",
+    previousComments: previousComments.length > 0 ? previousComments : "None",
+    ...(ctx.rejectedDrafts?.length && {
+      rejectedDrafts: ctx.rejectedDrafts,
+      note: "rejectedDrafts repeated earlier comments; take a clearly different angle.",
+    }),
+    goal: "Generate a single comment that helps the audience understand and appreciate this moment. Add something previousComments have not said; refer back to them briefly instead of restating.",
   });
 }
 
+function formatMediaTime(seconds: number | undefined): string | undefined {
+  if (seconds === undefined) return undefined;
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
 export interface GenerationContext {
   currentText: string;
   historicalText: string;
   uncommentedText?: string;
+  /** Earlier comments of this session, oldest first; only the last `historyDepth` are used */
   previousComments: Comment[];
   events: Event[];
+  /** Who said `currentText`, when known */
+  currentSpeaker?: Speaker;
+  /** Drafts already discarded for repeating earlier comments */
+  rejectedDrafts?: string[];
 }
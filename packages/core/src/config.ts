@@ -1,34 +1,60 @@
 import type { CommentGeneratorConfig } from "./comment-gen/index.js";
 import type { DecisionEngineConfig } from "./decision-engine/index.js";
-import type { EventDetectorConfig } from "./event-detector/index.js";
+import type { DetectionCacheConfig } from "./detection-cache/index.js";
+import type {
+  DetectionQueueConfig,
+  EventDetectorConfig,
+  LegacyEventDetectorThresholds,
+} from "./event-detector/index.js";
+import type { NoveltyFilterConfig } from "./novelty/index.js";
+import type { PreFilterConfig } from "./pre-filter/index.js";
+import type { ResilienceConfig, ResiliencePolicy } from "./resilience/index.js";
+import type { StalenessConfig } from "./staleness/index.js";
 import {
   defaultTextBufferConfig,
   type TextBufferConfig,
 } from "./text-buffer/index.js";
 import type { ShortTurnAggregatorConfig } from "./turn-agg/def.js";
+import type { UsageConfig } from "./usage/index.js";
 
 export type Config = {
   commentGenerator: CommentGeneratorConfig;
   decisionEngine: DecisionEngineConfig;
   eventDetector: EventDetectorConfig;
+  detectionQueue: DetectionQueueConfig;
   contextBuffer: TextBufferConfig;
   uncommentedBuffer: TextBufferConfig;
   shortTurnAggregator: ShortTurnAggregatorConfig;
+  novelty: NoveltyFilterConfig;
+  staleness: StalenessConfig;
+  preFilter: PreFilterConfig;
+  detectionCache: DetectionCacheConfig;
+  usage: UsageConfig;
+  resilience: ResilienceConfig;
   apiKeys: ApiKeys;
 };
 
 export type ConfigInput = Partial<{
   commentGenerator: Partial<CommentGeneratorConfig>;
   decisionEngine: Partial<DecisionEngineConfig>;
-  eventDetector: Partial<EventDetectorConfig>;
+  eventDetector: Partial<EventDetectorConfig> & LegacyEventDetectorThresholds;
+  detectionQueue: Partial<DetectionQueueConfig>;
   contextBuffer: Partial<TextBufferConfig>;
   uncommentedBuffer: Partial<TextBufferConfig>;
   shortTurnAggregator: Partial<ShortTurnAggregatorConfig>;
+  novelty: Partial<NoveltyFilterConfig>;
+  staleness: Partial<StalenessConfig>;
+  preFilter: Partial<PreFilterConfig>;
+  detectionCache: Partial<DetectionCacheConfig>;
+  usage: Partial<UsageConfig>;
+  resilience: { [K in keyof ResilienceConfig]?: Partial<ResiliencePolicy> };
 }>;
 
 export type ApiKeys = {
   openai?: string;
   google?: string;
+  /** Key for a self-hosted OpenAI-compatible server, if it requires one */
+  openaiCompatible?: string;
 };
 
 export const defaultContextBufferConfig: TextBufferConfig = {
@@ -43,5 +69,14 @@ export const defaultUncommentedBufferConfig: TextBufferConfig = {
 
 export { defaultCommentGeneratorConfig } from "./comment-gen/index.js";
 export { defaultDecisionEngineConfig } from "./decision-engine/index.js";
-export { defaultEventDetectorConfig } from "./event-detector/index.js";
+export { defaultDetectionCacheConfig } from "./detection-cache/index.js";
+export {
+  defaultDetectionQueueConfig,
+  defaultEventDetectorConfig,
+} from "./event-detector/index.js";
+export { defaultNoveltyFilterConfig } from "./novelty/index.js";
+export { defaultPreFilterConfig } from "./pre-filter/index.js";
+export { defaultResilienceConfig } from "./resilience/index.js";
+export { defaultStalenessConfig } from "./staleness/index.js";
 export { defaultShortTurnAggregatorConfig } from "./turn-agg/index.js";
+export { defaultUsageConfig } from "./usage/index.js";
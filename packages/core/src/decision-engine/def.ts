@@ -1,4 +1,5 @@
 import z from "zod/v4";
+import { commentSchema } from "../type.js";
 
 export interface Decision {
   shouldComment: boolean;
@@ -10,6 +11,18 @@ export interface Decision {
   reasoning: string;
 }
 
+export const EventFactorSchema = z.object({
+  type: z.string().min(1).describe("Event type, usually a custom one"),
+  factor: z
+    .enum(["emotion", "topic", "importance", "keyword"])
+    .describe("Decision factor the event counts toward"),
+  weight: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("Scales the event's confidence before it counts"),
+});
+
 export const DecisionEngineConfigSchema = z.object({
   baseThreshold: z
     .number()
@@ -39,6 +52,24 @@ export const DecisionEngineConfigSchema = z.object({
     .max(1)
     .describe("Frequency suppression factor"),
   timeDecayRate: z.number().min(0).max(1).describe("Time decay rate"),
+  whileCommenting: z
+    .enum(["supersede", "queue"])
+    .describe(
+      "When a new comment is decided while another is scheduled or streaming: abort it (supersede) or wait for it (queue)",
+    ),
+  eventFactors: z
+    .array(EventFactorSchema)
+    .optional()
+    .describe(
+      "Factors that event types count toward, in addition to the fixed mapping of the built-in types",
+    ),
+});
+
+export const DecisionEngineStateSchema = z.object({
+  dynamicThreshold: z.number(),
+  /** null until the first comment */
+  lastCommentTime: z.number().nullable(),
+  commentHistory: z.array(commentSchema),
 });
 
 export const defaultDecisionEngineConfig: DecisionEngineConfig = {
@@ -52,6 +83,10 @@ export const defaultDecisionEngineConfig: DecisionEngineConfig = {
   keywordWeight: 0.3,
   frequencySuppression: 0.8,
   timeDecayRate: 1,
+  whileCommenting: "queue",
+  eventFactors: [],
 };
 
 export type DecisionEngineConfig = z.output<typeof DecisionEngineConfigSchema>;
+export type DecisionEngineState = z.output<typeof DecisionEngineStateSchema>;
+export type EventFactor = z.output<typeof EventFactorSchema>;
@@ -2,6 +2,10 @@ export {
   type Decision,
   type DecisionEngineConfig,
   DecisionEngineConfigSchema,
+  type DecisionEngineState,
+  DecisionEngineStateSchema,
   defaultDecisionEngineConfig,
+  type EventFactor,
+  EventFactorSchema,
 } from "./def.js";
 export { DecisionEngine } from "./service.js";
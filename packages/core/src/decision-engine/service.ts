@@ -1,6 +1,11 @@
 import { getLogger } from "@logtape/logtape";
+import { type Clock, realTimeClock } from "../lib/clock.js";
 import type { Comment, Event } from "../type.js";
-import type { Decision, DecisionEngineConfig } from "./def.js";
+import type {
+  Decision,
+  DecisionEngineConfig,
+  DecisionEngineState,
+} from "./def.js";
 
 export class DecisionEngine {
   private lastCommentTime = -Infinity;
@@ -9,7 +14,10 @@ export class DecisionEngine {
 
   private logger = getLogger(["ai-reaction", "decision-engine"]);
 
-  constructor(private config: DecisionEngineConfig) {
+  constructor(
+    private config: DecisionEngineConfig,
+    private clock: Clock = realTimeClock,
+  ) {
     // Start with higher threshold to avoid early comments
     this.dynamicThreshold = Math.min(config.baseThreshold * 1.3, 0.85);
   }
@@ -114,6 +122,14 @@ export class DecisionEngine {
       });
     }
 
+    // Mapped event types (e.g. custom ones) raise their factor by their weighted confidence
+    for (const { type, factor, weight } of this.config.eventFactors ?? []) {
+      for (const event of events) {
+        if (event.type !== type) continue;
+        factors[factor] = Math.max(factors[factor], event.confidence * weight);
+      }
+    }
+
     // Calculate content quality bonus
     const contentQualityBonus = this.calculateContentQualityBonus(events);
     this.logger.trace("Calculated content quality bonus", {
@@ -396,6 +412,42 @@ export class DecisionEngine {
     }
   }
 
+  /**
+   * Forget comments after the new media position so timing is measured from it.
+   */
+  seek(time: number): void {
+    this.commentHistory = this.commentHistory.filter(
+      (c) => (c.metadata?.timestamp ?? -Infinity) <= time,
+    );
+    const last = this.commentHistory.at(-1)?.metadata?.timestamp;
+    this.lastCommentTime = last ?? -Infinity;
+    this.logger.debug("Decision engine seeked", {
+      time,
+      historyLength: this.commentHistory.length,
+      lastCommentTime: last ?? null,
+    });
+  }
+
+  snapshot(): DecisionEngineState {
+    return {
+      dynamicThreshold: this.dynamicThreshold,
+      lastCommentTime:
+        this.lastCommentTime === -Infinity ? null : this.lastCommentTime,
+      commentHistory: this.commentHistory.map((c) => ({ ...c })),
+    };
+  }
+
+  restore(state: DecisionEngineState): void {
+    this.dynamicThreshold = state.dynamicThreshold;
+    this.lastCommentTime = state.lastCommentTime ?? -Infinity;
+    this.commentHistory = state.commentHistory.map((c) => ({ ...c }));
+    this.logger.debug("Decision engine restored", {
+      dynamicThreshold: this.dynamicThreshold,
+      lastCommentTime: state.lastCommentTime,
+      historyLength: this.commentHistory.length,
+    });
+  }
+
   updateHistory(comment: Comment): void {
     this.logger.debug("Updating comment history", {
       commentId: comment.id,
@@ -410,7 +462,7 @@ export class DecisionEngine {
     const timestamp = comment.metadata?.timestamp;
     const previousLastCommentTime = this.lastCommentTime;
     this.lastCommentTime =
-      typeof timestamp === "number" ? timestamp : Date.now();
+      typeof timestamp === "number" ? timestamp : this.clock.now();
 
     // Keep only recent history (last 10 comments)
     const trimmed = this.commentHistory.length > 10;
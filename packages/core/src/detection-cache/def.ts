@@ -0,0 +1,50 @@
+import z from "zod/v4";
+import type { EventAnalysis } from "../event-detector/def.js";
+
+export const DetectionCacheConfigSchema = z.object({
+  enabled: z
+    .boolean()
+    .describe("Reuse detection results for identical prompts"),
+  ttlMs: z
+    .number()
+    .min(0)
+    .describe("How long a stored result stays valid (ms, 0 = forever)"),
+  maxEntries: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Results kept; the least recently used are evicted first"),
+});
+
+export const defaultDetectionCacheConfig: DetectionCacheConfig = {
+  enabled: false,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+  maxEntries: 5000,
+};
+
+export type DetectionCacheConfig = z.output<typeof DetectionCacheConfigSchema>;
+
+export interface DetectionCacheEntry {
+  analysis: EventAnalysis;
+  /** Epoch milliseconds; results outlive a run, so this is wall-clock time */
+  storedAt: number;
+}
+
+/**
+ * Where cached detection results live. Entries are kept in least recently used order.
+ */
+export interface DetectionCacheStore {
+  get(key: string): Promise<DetectionCacheEntry | undefined>;
+  set(key: string, entry: DetectionCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Evict the least recently used entries until at most `maxEntries` remain */
+  prune(maxEntries: number): Promise<void>;
+}
+
+export interface DetectionCacheStatistics {
+  hits: number;
+  misses: number;
+  writes: number;
+  /** Entries found but older than `ttlMs`, counted as misses too */
+  expired: number;
+}
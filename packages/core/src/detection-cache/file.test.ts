@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { EventAnalysis } from "../event-detector/def.js";
+import { JsonFileDetectionCacheStore } from "./file.js";
+
+const analysis: EventAnalysis = { events: [], context_language: "en" };
+
+describe("JsonFileDetectionCacheStore", () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "detection-cache-"));
+  });
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps entries between instances", async () => {
+    const path = join(dir, "nested", "cache.json");
+    const store = new JsonFileDetectionCacheStore(path);
+    await store.set("a", { analysis, storedAt: 1 });
+    await store.flush();
+
+    const reopened = new JsonFileDetectionCacheStore(path);
+    assert.deepEqual(await reopened.get("a"), { analysis, storedAt: 1 });
+  });
+
+  it("starts empty from a corrupt file and overwrites it", async () => {
+    const path = join(dir, "corrupt.json");
+    await writeFile(path, "{ not json");
+    const store = new JsonFileDetectionCacheStore(path);
+
+    assert.equal(await store.get("a"), undefined);
+    await store.set("b", { analysis, storedAt: 1 });
+    await store.flush();
+
+    const file = JSON.parse(await readFile(path, "utf-8"));
+    assert.deepEqual(
+      file.entries.map(([key]: [string]) => key),
+      ["b"],
+    );
+  });
+
+  it("reads the file again after a failed read", async () => {
+    // A directory cannot be read as a file
+    const path = join(dir, "unreadable");
+    await mkdir(path);
+    const store = new JsonFileDetectionCacheStore(path);
+
+    await assert.rejects(store.get("a"));
+    await rm(path, { recursive: true });
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        entries: [["a", { analysis, storedAt: 1 }]],
+      }),
+    );
+    assert.deepEqual(await store.get("a"), { analysis, storedAt: 1 });
+  });
+});
@@ -0,0 +1,114 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getLogger } from "@logtape/logtape";
+import type { DetectionCacheEntry } from "./def.js";
+import { MemoryDetectionCacheStore } from "./service.js";
+
+const FILE_VERSION = 1;
+
+interface CacheFile {
+  version: typeof FILE_VERSION;
+  /** Least recently used first */
+  entries: [string, DetectionCacheEntry][];
+}
+
+/**
+ * Detection cache kept in a JSON file, so results survive between runs
+ * (e.g. repeated replays while tuning). Node only.
+ * The file is read on first use and rewritten in the background after changes;
+ * call `flush()` before exiting to make sure the last write landed.
+ */
+export class JsonFileDetectionCacheStore extends MemoryDetectionCacheStore {
+  private loading: Promise<void> | undefined;
+  private saving: Promise<void> | undefined;
+  private dirty = false;
+  private logger = getLogger(["ai-reaction", "detection-cache"]);
+
+  constructor(private path: string) {
+    super();
+  }
+
+  override async get(key: string): Promise<DetectionCacheEntry | undefined> {
+    await this.load();
+    return super.get(key);
+  }
+
+  override async set(key: string, entry: DetectionCacheEntry): Promise<void> {
+    await this.load();
+    await super.set(key, entry);
+    void this.save();
+  }
+
+  override async delete(key: string): Promise<void> {
+    await this.load();
+    await super.delete(key);
+    void this.save();
+  }
+
+  override async prune(maxEntries: number): Promise<void> {
+    await this.load();
+    const size = this.entries.size;
+    await super.prune(maxEntries);
+    if (this.entries.size !== size) void this.save();
+  }
+
+  /** Resolve once every change so far has been written */
+  async flush(): Promise<void> {
+    while (this.saving) await this.saving;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= readFile(this.path, "utf-8").then(
+      (text) => {
+        try {
+          const file = JSON.parse(text) as CacheFile;
+          if (file.version !== FILE_VERSION) return;
+          // Entries added before loading finished are newer; keep them last
+          const added = [...this.entries];
+          this.entries = new Map([...file.entries, ...added]);
+        } catch (error) {
+          // Start empty; the next save overwrites the corrupt file
+          this.logger.warn(
+            "Detection cache {path} is corrupt, starting empty: {message}",
+            { path: this.path, message: (error as Error)?.message },
+          );
+        }
+      },
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return;
+        // Let the next call try reading again
+        this.loading = undefined;
+        throw error;
+      },
+    );
+    return this.loading;
+  }
+
+  private save(): Promise<void> {
+    this.dirty = true;
+    // One writer at a time; changes made while writing are picked up by the next pass
+    this.saving ??= (async () => {
+      try {
+        while (this.dirty) {
+          this.dirty = false;
+          const file: CacheFile = {
+            version: FILE_VERSION,
+            entries: [...this.entries],
+          };
+          await mkdir(dirname(this.path), { recursive: true });
+          const temp = `${this.path}.tmp`;
+          await writeFile(temp, JSON.stringify(file));
+          await rename(temp, this.path);
+        }
+      } catch (error) {
+        this.logger.warn("Writing detection cache {path} failed: {message}", {
+          path: this.path,
+          message: (error as Error)?.message,
+        });
+      } finally {
+        this.saving = undefined;
+      }
+    })();
+    return this.saving;
+  }
+}
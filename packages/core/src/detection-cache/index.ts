@@ -0,0 +1,13 @@
+export {
+  type DetectionCacheConfig,
+  DetectionCacheConfigSchema,
+  type DetectionCacheEntry,
+  type DetectionCacheStatistics,
+  type DetectionCacheStore,
+  defaultDetectionCacheConfig,
+} from "./def.js";
+export {
+  DetectionCache,
+  detectionCacheKey,
+  MemoryDetectionCacheStore,
+} from "./service.js";
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { EventAnalysis } from "../event-detector/def.js";
+import type { DetectionCacheConfig, DetectionCacheStore } from "./def.js";
+import { DetectionCache, MemoryDetectionCacheStore } from "./service.js";
+
+const config: DetectionCacheConfig = {
+  enabled: true,
+  ttlMs: 60_000,
+  maxEntries: 2,
+};
+
+const analysis: EventAnalysis = { events: [], context_language: "en" };
+
+describe("DetectionCache", () => {
+  it("counts hits, misses and writes", async () => {
+    const cache = new DetectionCache(config);
+
+    assert.equal(await cache.get("a"), undefined);
+    await cache.set("a", analysis);
+    assert.deepEqual(await cache.get("a"), analysis);
+
+    assert.deepEqual(cache.getStatistics(), {
+      hits: 1,
+      misses: 1,
+      writes: 1,
+      expired: 0,
+    });
+  });
+
+  it("treats an entry older than ttlMs as a miss and deletes it", async () => {
+    const store = new MemoryDetectionCacheStore();
+    const cache = new DetectionCache(config, store);
+    await store.set("a", { analysis, storedAt: Date.now() - 60_001 });
+
+    assert.equal(await cache.get("a"), undefined);
+    assert.equal(await store.get("a"), undefined);
+    assert.deepEqual(cache.getStatistics(), {
+      hits: 0,
+      misses: 1,
+      writes: 0,
+      expired: 1,
+    });
+  });
+
+  it("evicts the least recently used entries over maxEntries", async () => {
+    const store = new MemoryDetectionCacheStore();
+    const cache = new DetectionCache(config, store);
+
+    await cache.set("a", analysis);
+    await cache.set("b", analysis);
+    await cache.get("a");
+    await cache.set("c", analysis);
+
+    assert.ok(await store.get("a"));
+    assert.equal(await store.get("b"), undefined);
+    assert.ok(await store.get("c"));
+  });
+
+  it("treats store failures as misses", async () => {
+    const failing: DetectionCacheStore = {
+      get: () => Promise.reject(new Error("disk gone")),
+      set: () => Promise.reject(new Error("disk gone")),
+      delete: () => Promise.reject(new Error("disk gone")),
+      prune: () => Promise.reject(new Error("disk gone")),
+    };
+    const cache = new DetectionCache(config, failing);
+
+    await cache.set("a", analysis);
+    assert.equal(await cache.get("a"), undefined);
+    assert.deepEqual(cache.getStatistics(), {
+      hits: 0,
+      misses: 1,
+      writes: 0,
+      expired: 0,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { getLogger } from "@logtape/logtape";
+import {
+  DETECTION_PROMPT_VERSION,
+  type EventAnalysis,
+} from "../event-detector/def.js";
+import { contentHash } from "../lib/hash.js";
+import type {
+  DetectionCacheConfig,
+  DetectionCacheEntry,
+  DetectionCacheStatistics,
+  DetectionCacheStore,
+} from "./def.js";
+
+export class MemoryDetectionCacheStore implements DetectionCacheStore {
+  protected entries = new Map<string, DetectionCacheEntry>(); // Oldest use first
+
+  async get(key: string): Promise<DetectionCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: DetectionCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async prune(maxEntries: number): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/** Cache key of a detection request */
+export function detectionCacheKey({
+  provider,
+  model,
+  systemPrompt,
+  userPrompt,
+}: {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+}): string {
+  return contentHash(
+    JSON.stringify([
+      provider,
+      model,
+      DETECTION_PROMPT_VERSION,
+      systemPrompt,
+      userPrompt,
+    ]),
+  );
+}
+
+/**
+ * Detection results keyed by provider, model, prompt version and built prompt,
+ * so replaying a transcript does not pay for the same detections twice.
+ * Store failures are logged and treated as misses; they never fail detection.
+ */
+export class DetectionCache {
+  private statistics: DetectionCacheStatistics = {
+    hits: 0,
+    misses: 0,
+    writes: 0,
+    expired: 0,
+  };
+  private logger = getLogger(["ai-reaction", "detection-cache"]);
+
+  constructor(
+    private config: DetectionCacheConfig,
+    private store: DetectionCacheStore = new MemoryDetectionCacheStore(),
+  ) {}
+
+  async get(key: string): Promise<EventAnalysis | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (
+        entry &&
+        this.config.ttlMs > 0 &&
+        Date.now() - entry.storedAt > this.config.ttlMs
+      ) {
+        this.statistics.expired++;
+        this.statistics.misses++;
+        await this.store.delete(key);
+        return undefined;
+      }
+      if (entry) this.statistics.hits++;
+      else this.statistics.misses++;
+      return entry?.analysis;
+    } catch (error) {
+      this.statistics.misses++;
+      this.logger.warn("Detection cache read failed: {message}", {
+        message: (error as Error)?.message,
+      });
+      return undefined;
+    }
+  }
+
+  async set(key: string, analysis: EventAnalysis): Promise<void> {
+    try {
+      await this.store.set(key, { analysis, storedAt: Date.now() });
+      await this.store.prune(this.config.maxEntries);
+      this.statistics.writes++;
+    } catch (error) {
+      this.logger.warn("Detection cache write failed: {message}", {
+        message: (error as Error)?.message,
+      });
+    }
+  }
+
+  getStatistics(): DetectionCacheStatistics {
+    return { ...this.statistics };
+  }
+}
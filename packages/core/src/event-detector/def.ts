@@ -1,5 +1,15 @@
 import { z } from "zod/v4";
-import { eventTypeSchema } from "../type.js";
+import {
+  type Event,
+  type EventType,
+  eventTypeSchema,
+  isBuiltInEventType,
+  type Turn,
+} from "../type.js";
+import type { TokenUsage } from "../usage/index.js";
+
+/** Bump whenever `systemPrompt` or `buildUserPrompt` changes, so cached results are not reused */
+export const DETECTION_PROMPT_VERSION = 2;
 
 export const systemPrompt = `
 You are an expert event detector for real-time conversation analysis. Your job is to detect significant conversational events from the current user content, using the uncommented recent context as primary grounding and the broader context for background.
@@ -37,7 +47,7 @@ Guidance on INTENSITY by event type (0.0–1.0). Intensity measures the salience
 
 Additional instructions:
 - Use the uncommented recent context to anchor your interpretation; use broader context only as supporting background.
-- triggers should be short phrases/words that directly prompted the detection.
+- triggers should be short phrases/words that directly prompted the detection, copied verbatim from the current turn so they can be located in it.
 - confidence reflects your certainty in the detection; intensity reflects how strong/important the event itself is.
 - content_quality_score (0-10): Rate content quality where higher scores indicate more substantive/technical content. Consider: technical terms, research/data mentions, methodical approaches, meaningful questions that prompt thinking, conclusions with insights. Lower scores for pure emotion or casual remarks.
 - Avoid duplicate events with the same type and triggers in the same turn. Prefer the most salient ones.
@@ -117,79 +127,531 @@ export const buildUserPrompt = (
   immediateContext: string,
   broadContext: string,
   content: string,
+  speaker?: string,
 ) => `Broader conversation context: "${broadContext}"
 
 Uncommented recent context (focus on this): "${immediateContext}"
 
-Current content: "${content}"
+Current content${speaker ? ` (spoken by ${speaker})` : ""}: "${content}"
 
 Analyze the current content primarily in the context of the uncommented recent conversation, using the broader context for additional understanding. Detect any significant events that warrant a comment.`;
 
-export const EventDetectorConfigSchema = z.object({
-  detectionSensitivity: z
+/** Appended to `systemPrompt` when several turns are analyzed in one request */
+export const batchSystemPrompt = `${systemPrompt}
+
+Batch mode:
+- The current content is a JSON array of turns, oldest first, each with an id, start and end time (seconds) and optional speaker.
+- Analyze every turn on its own, using the earlier turns of the batch as additional context.
+- Set turn_id on each event to the id of the turn it was detected in. Turns without significant events get none.`;
+
+/** One turn of a batch request, as the model sees it */
+export interface BatchPromptTurn {
+  id: string;
+  start: number;
+  end: number;
+  speaker?: string;
+  content: string;
+}
+
+export const buildBatchUserPrompt = (
+  immediateContext: string,
+  broadContext: string,
+  turns: BatchPromptTurn[],
+) => `Broader conversation context: "${broadContext}"
+
+Uncommented recent context (focus on this): "${immediateContext}"
+
+Current turns: ${JSON.stringify(turns)}
+
+Analyze each current turn primarily in the context of the uncommented recent conversation, using the broader context for additional understanding. Detect any significant events that warrant a comment and tag each with its turn_id.`;
+
+/** What a detector looks at for one turn */
+export interface DetectionInput {
+  turn: Turn;
+  uncommentedText: string;
+  fullContext?: string;
+}
+
+export interface DetectOptions {
+  signal?: AbortSignal;
+  /** Use this model instead of the configured one, e.g. a cheaper one once over budget */
+  model?: string;
+  /** Called with the tokens of each provider request */
+  onUsage?: (usage: TokenUsage, model: string, provider: string) => void;
+  /** Called with the events of a turn dropped by `eventThresholds` */
+  onFiltered?: (filtered: FilteredEvent[], turn: Turn) => void;
+  /** Called with earlier events, under their original ids, that repeats in `turn` were merged into */
+  onUpdated?: (events: Event[], turn: Turn) => void;
+}
+
+/** A detected event dropped by the per-type thresholds */
+export interface FilteredEvent {
+  event: Event;
+  /** Why the event was dropped, e.g. "intensity 0.4 below 0.75" */
+  reason: string;
+}
+
+/**
+ * Turns one turn into events. Implemented by the model-backed `EventDetector`
+ * and the offline `HeuristicEventDetector`.
+ */
+export interface Detector {
+  detect(input: DetectionInput, options?: DetectOptions): Promise<Event[]>;
+  /**
+   * Detect several turns at once, returning the events of each input in order.
+   * Detectors without it get one `detect` call per turn.
+   */
+  detectBatch?(
+    inputs: DetectionInput[],
+    options?: DetectOptions,
+  ): Promise<Event[][]>;
+  /** The media jumped to `time` (seconds); forget state after it */
+  seek?(time: number): void;
+  /** Forget all state, e.g. cooldowns */
+  clear?(): void;
+}
+
+export const HeuristicLexiconSchema = z.object({
+  language: z.string().describe("Language code reported in event metadata"),
+  interrogatives: z
+    .array(z.string())
+    .describe("Question words and particles, for question_raised"),
+  sentimentWords: z
+    .array(z.string())
+    .describe("Strong sentiment words and interjections, for emotion_peak"),
+  summaryPhrases: z
+    .array(z.string())
+    .describe("Recap phrases, for summary_point"),
+  conclusionPhrases: z
+    .array(z.string())
+    .describe("Decision phrases, for conclusion_reached"),
+  topicChangePhrases: z
+    .array(z.string())
+    .describe("Transition phrases, for topic_change"),
+  keyPointPhrases: z
+    .array(z.string())
+    .describe("Emphasis phrases, for key_point"),
+});
+
+export const HeuristicDetectorConfigSchema = z.object({
+  lexicons: z
+    .array(HeuristicLexiconSchema)
+    .min(1)
+    .describe("Lexicon packs matched against every turn"),
+});
+
+export const DetectionProviderOptionsSchema = z.object({
+  baseURL: z
+    .string()
+    .optional()
+    .describe(
+      "Override the API base URL, e.g. http://localhost:11434/v1 for a local OpenAI-compatible server",
+    ),
+  headers: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe("Extra HTTP headers sent with every request"),
+  reasoningEffort: z
+    .enum(["minimal", "low", "medium", "high"])
+    .optional()
+    .describe("Reasoning effort for reasoning models (OpenAI)"),
+  verbosity: z
+    .enum(["low", "medium", "high"])
+    .optional()
+    .describe("Output verbosity (OpenAI)"),
+  temperature: z
+    .number()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe("Sampling temperature, leave unset for the model default"),
+});
+
+export const CustomEventTypeSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, "Use snake_case, e.g. goal_scored")
+    .refine((name) => !isBuiltInEventType(name), {
+      message: "Already a built-in event type",
+    })
+    .describe("Event type reported in events, e.g. goal_scored"),
+  description: z
+    .string()
+    .min(1)
+    .describe("What counts as this event, shown to the model"),
+  intensityRubric: z
+    .string()
+    .describe("How to grade intensity (0.0-1.0) for this type"),
+  examples: z
+    .array(z.string())
+    .describe("Short utterances that contain the event"),
+});
+
+export const DetectionFallbackSchema = z.object({
+  modelProvider: z.string().describe("Registered detection provider id"),
+  model: z.string(),
+  providerOptions: DetectionProviderOptionsSchema.optional().describe(
+    "Provider-specific request options",
+  ),
+});
+
+export const EventThresholdSchema = z.object({
+  minConfidence: z
     .number()
     .min(0)
     .max(1)
-    .describe("Minimum confidence threshold for event detection"),
-  emotionThreshold: z
+    .describe("Minimum confidence for events of this type"),
+  minIntensity: z
     .number()
     .min(0)
     .max(1)
-    .describe("Minimum intensity threshold for emotional events"),
-  topicTransitionThreshold: z
+    .describe("Minimum intensity for events of this type"),
+  enabled: z.boolean().describe("Drop every event of this type when false"),
+});
+
+export const RepetitionSuppressionSchema = z.object({
+  enabled: z
+    .boolean()
+    .describe("Suppress events repeating an earlier one of the same type"),
+  windowSec: z
+    .number()
+    .min(0)
+    .describe(
+      "Media seconds after the end of an event within which a similar one counts as a repeat",
+    ),
+  minTriggerOverlap: z
     .number()
     .min(0)
     .max(1)
-    .describe("Minimum intensity threshold for topic transition events"),
-  keypointDensityThreshold: z
+    .describe(
+      "Share of the smaller trigger set that must also trigger the earlier event",
+    ),
+  action: z
+    .enum(["merge", "dampen"])
+    .describe(
+      "merge: drop the repeat and extend the duration of the earlier event; dampen: keep it with reduced intensity",
+    ),
+  intensityFactor: z
     .number()
     .min(0)
     .max(1)
-    .describe("Minimum density threshold for keypoint events"),
-  modelProvider: z.enum(["openai", "google"]),
+    .describe("Intensity multiplier for dampened repeats"),
+});
+
+export const EventDetectorConfigSchema = z.object({
+  eventThresholds: z
+    .record(z.string(), EventThresholdSchema)
+    .describe(
+      "Filtering per event type; types without an entry use defaultEventThreshold",
+    ),
+  eventCooldowns: z
+    .record(z.string(), z.number().min(0))
+    .optional()
+    .describe(
+      "Media seconds after an event during which further events of its type are dropped",
+    ),
+  repetition: RepetitionSuppressionSchema.optional().describe(
+    "Merge or dampen events with the same type and overlapping triggers",
+  ),
+  modelProvider: z
+    .string()
+    .describe(
+      "Registered detection provider id (built-in: openai, google, openai-compatible)",
+    ),
   model: z.string(),
+  providerOptions: DetectionProviderOptionsSchema.optional().describe(
+    "Provider-specific request options",
+  ),
+  fallbacks: z
+    .array(DetectionFallbackSchema)
+    .optional()
+    .describe(
+      "Providers tried in order when the previous one fails, refuses or returns unparsable output",
+    ),
+  heuristicFallback: z
+    .boolean()
+    .optional()
+    .describe("Use the offline heuristic detector when every provider failed"),
+  heuristic: HeuristicDetectorConfigSchema.optional().describe(
+    "Lexicons for the heuristic fallback; English and Chinese by default",
+  ),
+  customEventTypes: z
+    .array(CustomEventTypeSchema)
+    .optional()
+    .describe("Event types detected in addition to the built-in ones"),
 });
 
 export const defaultEventDetectorConfig: EventDetectorConfig = {
-  detectionSensitivity: 0.7,
-  emotionThreshold: 0.75,
-  topicTransitionThreshold: 0.3,
-  // Use 0-1 scale for intensity thresholds; 0.5 is a balanced default
-  keypointDensityThreshold: 0.5,
+  eventThresholds: {
+    emotion_peak: { minConfidence: 0.7, minIntensity: 0.75, enabled: true },
+    topic_change: { minConfidence: 0.7, minIntensity: 0.75, enabled: true },
+    question_raised: { minConfidence: 0.7, minIntensity: 0.3, enabled: true },
+    conclusion_reached: {
+      minConfidence: 0.7,
+      minIntensity: 0.3,
+      enabled: true,
+    },
+    summary_point: { minConfidence: 0.7, minIntensity: 0.3, enabled: true },
+    key_point: { minConfidence: 0.7, minIntensity: 0.5, enabled: true },
+    climax_moment: { minConfidence: 0.7, minIntensity: 0, enabled: true },
+  },
+  eventCooldowns: {},
+  repetition: {
+    enabled: false,
+    windowSec: 30,
+    minTriggerOverlap: 0.5,
+    action: "merge",
+    intensityFactor: 0.5,
+  },
   modelProvider: "openai",
   model: "gpt-5-nano",
+  providerOptions: {
+    reasoningEffort: "minimal",
+    verbosity: "low",
+  },
+  fallbacks: [],
+  heuristicFallback: false,
+  customEventTypes: [],
+};
+
+/** Applied to event types without an `eventThresholds` entry, e.g. new custom types */
+export const defaultEventThreshold: EventThreshold = {
+  minConfidence: 0.7,
+  minIntensity: 0,
+  enabled: true,
 };
 
+/** The single-knob thresholds `eventThresholds` replaced */
+export interface LegacyEventDetectorThresholds {
+  /** @deprecated Use `eventThresholds[type].minConfidence` */
+  detectionSensitivity?: number;
+  /** @deprecated Use `eventThresholds.emotion_peak.minIntensity` */
+  emotionThreshold?: number;
+  /** @deprecated Use `eventThresholds[type].minIntensity` */
+  topicTransitionThreshold?: number;
+  /** @deprecated Use `eventThresholds.key_point.minIntensity` */
+  keypointDensityThreshold?: number;
+}
+
+/**
+ * Convert the legacy threshold fields of a stored config into `eventThresholds`
+ * entries, keeping the effective filtering: `topic_change` had to pass both the
+ * emotion and the topic transition threshold, `climax_moment` was never filtered
+ * by intensity. Entries already in `eventThresholds` win.
+ */
+export function migrateEventDetectorConfig<
+  T extends Partial<EventDetectorConfig>,
+>(config: T & LegacyEventDetectorThresholds): T {
+  const {
+    detectionSensitivity,
+    emotionThreshold,
+    topicTransitionThreshold,
+    keypointDensityThreshold,
+    ...rest
+  } = config;
+  if (
+    detectionSensitivity === undefined &&
+    emotionThreshold === undefined &&
+    topicTransitionThreshold === undefined &&
+    keypointDensityThreshold === undefined
+  ) {
+    return rest as T;
+  }
+
+  const defaults = defaultEventDetectorConfig.eventThresholds;
+  const threshold = (type: string, minIntensity?: number): EventThreshold => ({
+    ...(defaults[type] ?? defaultEventThreshold),
+    ...(detectionSensitivity !== undefined && {
+      minConfidence: detectionSensitivity,
+    }),
+    ...(minIntensity !== undefined && { minIntensity }),
+  });
+  const topicIntensity =
+    emotionThreshold === undefined && topicTransitionThreshold === undefined
+      ? undefined
+      : Math.max(
+          emotionThreshold ?? defaults.emotion_peak.minIntensity,
+          topicTransitionThreshold ?? defaults.question_raised.minIntensity,
+        );
+  const migrated: Record<string, EventThreshold> = {
+    emotion_peak: threshold("emotion_peak", emotionThreshold),
+    topic_change: threshold("topic_change", topicIntensity),
+    question_raised: threshold("question_raised", topicTransitionThreshold),
+    conclusion_reached: threshold(
+      "conclusion_reached",
+      topicTransitionThreshold,
+    ),
+    summary_point: threshold("summary_point", topicTransitionThreshold),
+    key_point: threshold("key_point", keypointDensityThreshold),
+    climax_moment: threshold("climax_moment"),
+  };
+  for (const { name } of config.customEventTypes ?? []) {
+    migrated[name] = threshold(name);
+  }
+
+  return {
+    ...rest,
+    eventThresholds: { ...migrated, ...config.eventThresholds },
+  } as T;
+}
+
 export type EventDetectorConfig = z.output<typeof EventDetectorConfigSchema>;
+export type EventThreshold = z.output<typeof EventThresholdSchema>;
+export type RepetitionSuppression = z.output<
+  typeof RepetitionSuppressionSchema
+>;
+export type DetectionFallback = z.output<typeof DetectionFallbackSchema>;
+export type CustomEventType = z.output<typeof CustomEventTypeSchema>;
+export type HeuristicLexicon = z.output<typeof HeuristicLexiconSchema>;
+export type HeuristicDetectorConfig = z.output<
+  typeof HeuristicDetectorConfigSchema
+>;
+export type DetectionProviderOptions = z.output<
+  typeof DetectionProviderOptionsSchema
+>;
 
-export const DetectedEventSchema = z.object({
-  type: eventTypeSchema,
-  confidence: z
-    .number()
-    .min(0)
-    .max(1)
-    .describe("How confident you are (0.0-1.0)"),
-  intensity: z
+export const DetectionQueueConfigSchema = z.object({
+  strategy: z
+    .enum(["latest", "fifo", "coalesce", "batch"])
+    .describe(
+      "latest: keep only the newest pending turn; fifo: process pending turns in order; coalesce: merge pending turns into one, up to maxSize; batch: detect up to batchSize pending turns in one request",
+    ),
+  maxSize: z
     .number()
-    .min(0)
-    .max(1)
-    .describe("How intense/significant the event is (0.0-1.0)"),
-  triggers: z
-    .array(z.string())
-    .describe("Specific words/phrases that triggered the detection"),
-  reasoning: z
-    .string()
-    .describe("Brief explanation of why this event was detected"),
-  content_quality_score: z
+    .int()
+    .min(1)
+    .describe(
+      "Max pending turns for fifo, coalesce and batch; the oldest is dropped when full",
+    ),
+  batchSize: z
     .number()
     .int()
+    .min(1)
+    .describe(
+      "Max turns per batch request; a longer backlog is sent in successive batches",
+    ),
+  batchMaxWaitMs: z
+    .number()
     .min(0)
-    .max(10)
     .describe(
-      "Content quality score (0-10): higher for technical/substantive content",
+      "How long the oldest pending turn may wait for the batch to fill before it is sent anyway",
+    ),
+  batchDecision: z
+    .enum(["batch", "turn"])
+    .describe(
+      "batch: one decision on all events of a batch; turn: one decision per turn, in order",
     ),
 });
-export const EventAnalysisSchema = z.object({
-  events: z.array(DetectedEventSchema),
-  context_language: z.string(),
-});
+
+export const defaultDetectionQueueConfig: DetectionQueueConfig = {
+  strategy: "latest",
+  maxSize: 5,
+  batchSize: 4,
+  batchMaxWaitMs: 1000,
+  batchDecision: "batch",
+};
+
+export type DetectionQueueConfig = z.output<typeof DetectionQueueConfigSchema>;
+export type DetectionQueueStrategy = DetectionQueueConfig["strategy"];
+
+function detectedEventSchema(type: z.ZodType<EventType>) {
+  return z.object({
+    type,
+    confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe("How confident you are (0.0-1.0)"),
+    intensity: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe("How intense/significant the event is (0.0-1.0)"),
+    triggers: z
+      .array(z.string())
+      .describe(
+        "Specific words/phrases that triggered the detection, quoted verbatim",
+      ),
+    reasoning: z
+      .string()
+      .describe("Brief explanation of why this event was detected"),
+    content_quality_score: z
+      .number()
+      .int()
+      .min(0)
+      .max(10)
+      .describe(
+        "Content quality score (0-10): higher for technical/substantive content",
+      ),
+  });
+}
+
+function eventAnalysisSchemas(type: z.ZodType<EventType>) {
+  const event = detectedEventSchema(type);
+  return {
+    single: z.object({
+      events: z.array(event),
+      context_language: z.string(),
+    }),
+    batch: z.object({
+      events: z.array(
+        event.extend({
+          turn_id: z
+            .string()
+            .describe("Id of the turn the event was detected in"),
+        }),
+      ),
+      context_language: z.string(),
+    }),
+  };
+}
+
+const builtInSchemas = eventAnalysisSchemas(eventTypeSchema);
+
+export const DetectedEventSchema = detectedEventSchema(eventTypeSchema);
+export const EventAnalysisSchema = builtInSchemas.single;
+export const BatchEventAnalysisSchema = builtInSchemas.batch;
+
+export type EventAnalysis = z.output<typeof EventAnalysisSchema>;
+export type BatchEventAnalysis = z.output<typeof BatchEventAnalysisSchema>;
+
+/**
+ * Response schemas whose event type accepts the built-in types plus `customTypes`;
+ * the built-in schemas when there are none.
+ */
+export function compileEventAnalysisSchemas(customTypes: CustomEventType[]): {
+  single: z.ZodType<EventAnalysis>;
+  batch: z.ZodType<BatchEventAnalysis>;
+} {
+  if (customTypes.length === 0) return builtInSchemas;
+  return eventAnalysisSchemas(
+    z.union([
+      ...eventTypeSchema.options,
+      ...customTypes.map((type) =>
+        z.literal(type.name).describe(type.description),
+      ),
+    ]),
+  );
+}
+
+/** Describes `customTypes` for the system prompt; empty when there are none */
+export function describeCustomEventTypes(
+  customTypes: CustomEventType[],
+): string {
+  if (customTypes.length === 0) return "";
+  const entries = customTypes.map((type) => {
+    const examples = type.examples.filter((example) => example.trim());
+    return [
+      `- ${type.name}: ${type.description}`,
+      type.intensityRubric && `  Intensity: ${type.intensityRubric}`,
+      examples.length > 0 &&
+        `  Examples: ${examples.map((example) => JSON.stringify(example)).join("; ")}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+  return `
+
+Custom event types (detect these in addition to the types above, with the same fields):
+${entries.join("\n")}`;
+}
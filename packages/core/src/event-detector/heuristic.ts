@@ -0,0 +1,242 @@
+import { getLogger } from "@logtape/logtape";
+import { nanoid } from "nanoid";
+import type { Event, EventType } from "../type.js";
+import type {
+  DetectionInput,
+  DetectOptions,
+  Detector,
+  HeuristicDetectorConfig,
+  HeuristicLexicon,
+} from "./def.js";
+import { defaultHeuristicDetectorConfig } from "./lexicons.js";
+import { locateEvent } from "./span.js";
+
+const CJK =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/** Regex source matching any of `phrases`; Latin phrases only match whole words */
+function alternation(phrases: string[]): string {
+  return phrases
+    .map((phrase) => {
+      const escaped = phrase
+        .trim()
+        .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        .replace(/\s+/g, "\\s+");
+      return CJK.test(phrase)
+        ? escaped
+        : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+    })
+    .join("|");
+}
+
+interface CompiledLexicon {
+  language: string;
+  questionStart?: RegExp;
+  questionEnd?: RegExp;
+  phrases: Partial<Record<PhraseKind, RegExp>>;
+}
+
+type PhraseKind =
+  | "sentimentWords"
+  | "summaryPhrases"
+  | "conclusionPhrases"
+  | "topicChangePhrases"
+  | "keyPointPhrases";
+
+const phraseKinds: PhraseKind[] = [
+  "sentimentWords",
+  "summaryPhrases",
+  "conclusionPhrases",
+  "topicChangePhrases",
+  "keyPointPhrases",
+];
+
+/** Fixed scores of the phrase-only event types */
+const phraseEvents: Record<
+  Exclude<PhraseKind, "sentimentWords">,
+  { type: EventType; confidence: number; intensity: number }
+> = {
+  summaryPhrases: { type: "summary_point", confidence: 0.8, intensity: 0.55 },
+  conclusionPhrases: {
+    type: "conclusion_reached",
+    confidence: 0.8,
+    intensity: 0.7,
+  },
+  topicChangePhrases: {
+    type: "topic_change",
+    confidence: 0.65,
+    intensity: 0.5,
+  },
+  keyPointPhrases: { type: "key_point", confidence: 0.6, intensity: 0.55 },
+};
+
+function compile(lexicon: HeuristicLexicon): CompiledLexicon {
+  const interrogatives = alternation(lexicon.interrogatives);
+  const phrases: CompiledLexicon["phrases"] = {};
+  for (const kind of phraseKinds) {
+    if (lexicon[kind].length > 0) {
+      phrases[kind] = new RegExp(alternation(lexicon[kind]), "giu");
+    }
+  }
+  return {
+    language: lexicon.language,
+    questionStart: interrogatives
+      ? new RegExp(`^(?:${interrogatives})`, "iu")
+      : undefined,
+    questionEnd: interrogatives
+      ? new RegExp(`(?:${interrogatives})[\\s.。…]*$`, "iu")
+      : undefined,
+    phrases,
+  };
+}
+
+/**
+ * Offline detector driven by punctuation and lexicons, producing the same events
+ * as `EventDetector` without any network. Useful for tests, demos, a cheap
+ * first pass, and as the last link of the detection fallback chain.
+ */
+export class HeuristicEventDetector implements Detector {
+  readonly id = "heuristic";
+  private lexicons: CompiledLexicon[];
+  private logger = getLogger(["ai-reaction", "heuristic-detector"]);
+
+  constructor(
+    config: HeuristicDetectorConfig = defaultHeuristicDetectorConfig,
+  ) {
+    this.lexicons = config.lexicons.map(compile);
+  }
+
+  async detect(
+    { turn }: DetectionInput,
+    { signal }: DetectOptions = {},
+  ): Promise<Event[]> {
+    signal?.throwIfAborted();
+    const content = turn.content.normalize("NFKC");
+    const sentences = content
+      .split(/(?<=[.!?。！？…\n])/u)
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    const hits = new Map<string, number>(); // language -> matches, to pick the language
+    const count = (language: string, n: number) =>
+      hits.set(language, (hits.get(language) ?? 0) + n);
+
+    // Questions: a question mark, or an interrogative opening or closing the sentence
+    const questions: string[] = [];
+    let marked = false;
+    for (const sentence of sentences) {
+      if (/[?？]$/u.test(sentence)) {
+        questions.push(sentence);
+        marked = true;
+        continue;
+      }
+      const lexicon = this.lexicons.find(
+        (l) => l.questionStart?.test(sentence) || l.questionEnd?.test(sentence),
+      );
+      if (lexicon) {
+        questions.push(sentence);
+        count(lexicon.language, 1);
+      }
+    }
+
+    const matched = Object.fromEntries(
+      phraseKinds.map((kind) => [kind, [] as string[]]),
+    ) as Record<PhraseKind, string[]>;
+    for (const lexicon of this.lexicons) {
+      for (const kind of phraseKinds) {
+        const pattern = lexicon.phrases[kind];
+        if (!pattern) continue;
+        const found = [...content.matchAll(pattern)].map((m) => m[0]);
+        matched[kind].push(...found);
+        count(lexicon.language, found.length);
+      }
+    }
+
+    const language = [...hits.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    const event = (
+      type: EventType,
+      confidence: number,
+      intensity: number,
+      triggers: string[],
+      reasoning: string,
+    ): Event => {
+      const unique = [...new Set(triggers)].slice(0, 5);
+      return {
+        id: nanoid(),
+        type,
+        confidence,
+        timestamp: turn.endTime,
+        ...locateEvent(turn, unique),
+        intensity: Math.min(1, intensity),
+        triggers: unique,
+        provider: this.id,
+        metadata: { reasoning, language },
+      };
+    };
+    const events: Event[] = [];
+
+    if (questions.length > 0) {
+      events.push(
+        event(
+          "question_raised",
+          marked ? 0.8 : 0.6,
+          0.45 + 0.15 * (questions.length - 1),
+          questions.map((q) => q.slice(0, 80)),
+          marked ? "Question mark" : "Interrogative word",
+        ),
+      );
+    }
+
+    const exclamations = content.match(/[!！]/gu)?.length ?? 0;
+    const sentiment = matched.sentimentWords;
+    if (exclamations > 0 || sentiment.length > 0) {
+      const emphatic = /[!！?？]{2,}/u.test(content);
+      const confidence =
+        exclamations > 0 && sentiment.length > 0
+          ? 0.8
+          : exclamations > 0
+            ? 0.6
+            : sentiment.length > 1
+              ? 0.65
+              : 0.5;
+      events.push(
+        event(
+          "emotion_peak",
+          confidence,
+          0.4 +
+            0.15 * Math.min(exclamations, 3) +
+            0.1 * Math.min(sentiment.length, 3) +
+            (emphatic ? 0.15 : 0),
+          sentiment.length > 0
+            ? sentiment
+            : sentences.filter((s) => /[!！]/u.test(s)),
+          "Exclamations and sentiment words",
+        ),
+      );
+    }
+
+    for (const [kind, scores] of Object.entries(phraseEvents) as [
+      keyof typeof phraseEvents,
+      (typeof phraseEvents)[keyof typeof phraseEvents],
+    ][]) {
+      const found = matched[kind];
+      if (found.length === 0) continue;
+      events.push(
+        event(
+          scores.type,
+          scores.confidence,
+          scores.intensity + 0.1 * (found.length - 1),
+          found,
+          `Matched ${kind.replace(/([A-Z])/g, " $1").toLowerCase()}`,
+        ),
+      );
+    }
+
+    this.logger.debug("Heuristic detection completed", () => ({
+      turnId: turn.id,
+      language,
+      eventTypes: events.map((e) => e.type),
+    }));
+    return events;
+  }
+}
@@ -1,7 +1,64 @@
 export {
+  type BatchEventAnalysis,
+  BatchEventAnalysisSchema,
+  type CustomEventType,
+  CustomEventTypeSchema,
+  DETECTION_PROMPT_VERSION,
+  type DetectionFallback,
+  DetectionFallbackSchema,
+  type DetectionInput,
+  type DetectionProviderOptions,
+  DetectionProviderOptionsSchema,
+  type DetectionQueueConfig,
+  DetectionQueueConfigSchema,
+  type DetectionQueueStrategy,
+  type DetectOptions,
+  type Detector,
+  defaultDetectionQueueConfig,
   defaultEventDetectorConfig,
+  defaultEventThreshold,
+  type EventAnalysis,
   type EventDetectorConfig,
   EventDetectorConfigSchema,
+  type EventThreshold,
+  EventThresholdSchema,
+  type FilteredEvent,
+  type HeuristicDetectorConfig,
+  HeuristicDetectorConfigSchema,
+  type HeuristicLexicon,
+  HeuristicLexiconSchema,
+  type LegacyEventDetectorThresholds,
+  migrateEventDetectorConfig,
+  type RepetitionSuppression,
+  RepetitionSuppressionSchema,
 } from "./def.js";
-export { type DetectionJob, EventDetectionQueue } from "./queue.js";
+export { HeuristicEventDetector } from "./heuristic.js";
+export {
+  chineseLexicon,
+  defaultHeuristicDetectorConfig,
+  englishLexicon,
+} from "./lexicons.js";
+export {
+  createDetectionProvider,
+  type DetectionProvider,
+  type DetectionProviderContext,
+  type DetectionProviderFactory,
+  type DetectionRequest,
+  GeminiDetectionProvider,
+  listDetectionProviders,
+  OpenAIDetectionProvider,
+  registerDetectionProvider,
+} from "./providers/index.js";
+export {
+  type DetectionJob,
+  type DetectionQueueStatistics,
+  EventDetectionQueue,
+} from "./queue.js";
 export { EventDetector } from "./service.js";
+export {
+  type EventSpan,
+  locateEvent,
+  mergeConsecutiveEvents,
+  mergeEvents,
+} from "./span.js";
+export { EventSuppressor, triggerOverlap } from "./suppression.js";
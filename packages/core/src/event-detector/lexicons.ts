@@ -0,0 +1,179 @@
+import type { HeuristicDetectorConfig, HeuristicLexicon } from "./def.js";
+
+export const englishLexicon: HeuristicLexicon = {
+  language: "en",
+  interrogatives: [
+    "what",
+    "why",
+    "how",
+    "when",
+    "where",
+    "who",
+    "which",
+    "is it",
+    "are we",
+    "can we",
+    "could we",
+    "should we",
+    "do you",
+    "does it",
+    "would you",
+    "any idea",
+    "I wonder",
+  ],
+  sentimentWords: [
+    "wow",
+    "amazing",
+    "awesome",
+    "incredible",
+    "unbelievable",
+    "fantastic",
+    "love",
+    "hate",
+    "terrible",
+    "awful",
+    "horrible",
+    "frustrating",
+    "annoying",
+    "crazy",
+    "insane",
+    "oh my god",
+    "omg",
+    "no way",
+    "damn",
+    "finally",
+  ],
+  summaryPhrases: [
+    "to recap",
+    "to summarize",
+    "in summary",
+    "to sum up",
+    "in short",
+    "in a nutshell",
+    "the takeaway",
+    "the key takeaways",
+    "let me recap",
+    "overall",
+  ],
+  conclusionPhrases: [
+    "so we decided",
+    "we decided",
+    "we've decided",
+    "we agreed",
+    "let's go with",
+    "let's ship",
+    "the decision is",
+    "the conclusion is",
+    "in conclusion",
+    "that settles it",
+    "final answer",
+  ],
+  topicChangePhrases: [
+    "moving on",
+    "next up",
+    "let's talk about",
+    "switching gears",
+    "on another note",
+    "speaking of",
+    "by the way",
+    "anyway",
+    "the next topic",
+  ],
+  keyPointPhrases: [
+    "the key is",
+    "the point is",
+    "importantly",
+    "most important",
+    "the main thing",
+    "keep in mind",
+    "note that",
+    "the problem is",
+    "the trick is",
+    "it turns out",
+  ],
+};
+
+export const chineseLexicon: HeuristicLexicon = {
+  language: "zh",
+  interrogatives: [
+    "什么",
+    "为什么",
+    "为啥",
+    "怎么",
+    "怎样",
+    "如何",
+    "哪里",
+    "哪个",
+    "谁",
+    "多少",
+    "是不是",
+    "有没有",
+    "能不能",
+    "要不要",
+    "吗",
+    "呢",
+  ],
+  sentimentWords: [
+    "哇",
+    "天哪",
+    "我的天",
+    "太棒了",
+    "厉害",
+    "牛",
+    "绝了",
+    "离谱",
+    "崩溃",
+    "气死",
+    "讨厌",
+    "喜欢",
+    "爱了",
+    "震惊",
+    "终于",
+    "可恶",
+    "糟糕",
+  ],
+  summaryPhrases: [
+    "总之",
+    "总而言之",
+    "总结一下",
+    "简单来说",
+    "概括一下",
+    "回顾一下",
+    "综上",
+    "一句话",
+  ],
+  conclusionPhrases: [
+    "所以我们决定",
+    "我们决定",
+    "决定了",
+    "就这么定了",
+    "结论是",
+    "最终",
+    "那就这样",
+    "达成一致",
+  ],
+  topicChangePhrases: [
+    "接下来",
+    "下面我们",
+    "说到",
+    "换个话题",
+    "另外",
+    "顺便",
+    "话说",
+    "回到",
+  ],
+  keyPointPhrases: [
+    "关键是",
+    "重点是",
+    "重要的是",
+    "核心是",
+    "需要注意",
+    "问题在于",
+    "其实",
+    "值得一提",
+  ],
+};
+
+export const defaultHeuristicDetectorConfig: HeuristicDetectorConfig = {
+  lexicons: [englishLexicon, chineseLexicon],
+};
@@ -0,0 +1,43 @@
+import type { z } from "zod/v4";
+import type { ApiKeys } from "../../config.js";
+import type { Clock } from "../../lib/clock.js";
+import type { TokenUsage } from "../../usage/index.js";
+import type { EventAnalysis, EventDetectorConfig } from "../def.js";
+
+export interface DetectionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  signal?: AbortSignal;
+  /** Use this model instead of the configured one, e.g. a cheaper one once over budget */
+  model?: string;
+  /** Called with the tokens the request used, if the backend reports them */
+  onUsage?: (usage: TokenUsage, model: string) => void;
+  /** The prompts cover several turns; answer with `BatchEventAnalysisSchema` */
+  batch?: boolean;
+  /**
+   * Structured-output schema to answer with, when it differs from the built-in one
+   * (e.g. with custom event types); must match `batch`
+   */
+  schema?: z.ZodType<EventAnalysis>;
+}
+
+/**
+ * A model backend that turns a detection prompt into a structured `EventAnalysis`
+ * (a `BatchEventAnalysis` for batch requests).
+ * Instances are created once per detector and may keep their SDK client around.
+ */
+export interface DetectionProvider {
+  /** Provider id this instance was created for, used in logs */
+  readonly id: string;
+  detect(request: DetectionRequest): Promise<EventAnalysis>;
+}
+
+export interface DetectionProviderContext {
+  config: EventDetectorConfig;
+  apiKeys: ApiKeys;
+  clock: Clock;
+}
+
+export type DetectionProviderFactory = (
+  context: DetectionProviderContext,
+) => DetectionProvider;
@@ -0,0 +1,129 @@
+import { GoogleGenAI } from "@google/genai";
+import { getLogger } from "@logtape/logtape";
+import type { Clock } from "../../lib/clock.js";
+import { zodGeminiFormat } from "../../lib/zod4-schema.js";
+import {
+  BatchEventAnalysisSchema,
+  type DetectionProviderOptions,
+  type EventAnalysis,
+  EventAnalysisSchema,
+} from "../def.js";
+import type {
+  DetectionProvider,
+  DetectionProviderFactory,
+  DetectionRequest,
+} from "./_base.js";
+
+export class GeminiDetectionProvider implements DetectionProvider {
+  readonly id = "google";
+  private client: GoogleGenAI;
+  private logger = getLogger(["ai-reaction", "detection-provider", "gemini"]);
+
+  constructor(
+    private model: string,
+    private options: DetectionProviderOptions & { apiKey?: string },
+    private clock: Clock,
+  ) {
+    this.client = new GoogleGenAI({
+      apiKey: options.apiKey,
+      httpOptions: {
+        baseUrl: options.baseURL,
+        headers: options.headers,
+        // Retries and timeouts come from the resilience policy alone
+        retryOptions: { attempts: 1 },
+      },
+    });
+  }
+
+  async detect({
+    systemPrompt,
+    userPrompt,
+    signal,
+    model = this.model,
+    onUsage,
+    batch,
+    schema = batch ? BatchEventAnalysisSchema : EventAnalysisSchema,
+  }: DetectionRequest): Promise<EventAnalysis> {
+    const { responseSchema, parse } = zodGeminiFormat(schema);
+
+    this.logger.debug("Calling Gemini API", {
+      model,
+      hasAbortSignal: !!signal,
+    });
+
+    const apiStart = this.clock.now();
+    const response = await this.client.models.generateContent({
+      model,
+      contents: `${systemPrompt}\n\n${userPrompt}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        temperature: this.options.temperature,
+        abortSignal: signal,
+      },
+    });
+    const apiTimeMs = this.clock.now() - apiStart;
+    const usage = response.usageMetadata;
+    if (usage) {
+      onUsage?.(
+        {
+          requests: 1,
+          inputTokens: usage.promptTokenCount ?? 0,
+          // Thinking tokens are billed as output
+          outputTokens:
+            (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+          cachedTokens: usage.cachedContentTokenCount ?? 0,
+        },
+        model,
+      );
+    }
+
+    this.logger.debug("Gemini API response received", {
+      model,
+      apiTimeMs: Math.round(apiTimeMs),
+      hasText: !!response.text,
+    });
+
+    const responseText = response.text;
+    if (!responseText) {
+      this.logger.error("Gemini response missing text", {
+        model,
+        responseKeys: Object.keys(response),
+      });
+      throw new Error("No text in Gemini response");
+    }
+
+    const parseStart = this.clock.now();
+    const analysis = parse(responseText);
+    const parseTimeMs = this.clock.now() - parseStart;
+
+    if (!analysis) {
+      this.logger.error("Failed to parse Gemini response", {
+        model,
+        responseTextLength: responseText.length,
+        responsePreview: responseText.substring(0, 200),
+      });
+      throw new Error("No analysis in Gemini response");
+    }
+
+    this.logger.debug("Gemini response parsed successfully", {
+      model,
+      parseTimeMs: Math.round(parseTimeMs),
+      eventsCount: analysis.events?.length ?? 0,
+      contextLanguage: analysis.context_language,
+    });
+
+    return analysis;
+  }
+}
+
+export const geminiDetectionProvider: DetectionProviderFactory = ({
+  config,
+  apiKeys,
+  clock,
+}) =>
+  new GeminiDetectionProvider(
+    config.model,
+    { ...config.providerOptions, apiKey: apiKeys.google },
+    clock,
+  );
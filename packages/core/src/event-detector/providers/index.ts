@@ -0,0 +1,52 @@
+import type {
+  DetectionProvider,
+  DetectionProviderContext,
+  DetectionProviderFactory,
+} from "./_base.js";
+import { geminiDetectionProvider } from "./gemini.js";
+import {
+  openaiCompatibleDetectionProvider,
+  openaiDetectionProvider,
+} from "./openai.js";
+
+export type {
+  DetectionProvider,
+  DetectionProviderContext,
+  DetectionProviderFactory,
+  DetectionRequest,
+} from "./_base.js";
+export { GeminiDetectionProvider } from "./gemini.js";
+export { OpenAIDetectionProvider } from "./openai.js";
+
+const registry = new Map<string, DetectionProviderFactory>([
+  ["openai", openaiDetectionProvider],
+  ["google", geminiDetectionProvider],
+  ["openai-compatible", openaiCompatibleDetectionProvider],
+]);
+
+/**
+ * Register a provider under `id` so it can be selected with `eventDetector.modelProvider`.
+ * Registering an existing id replaces it.
+ */
+export function registerDetectionProvider(
+  id: string,
+  factory: DetectionProviderFactory,
+): void {
+  registry.set(id, factory);
+}
+
+export function listDetectionProviders(): string[] {
+  return [...registry.keys()];
+}
+
+export function createDetectionProvider(
+  context: DetectionProviderContext,
+): DetectionProvider {
+  const factory = registry.get(context.config.modelProvider);
+  if (!factory) {
+    throw new Error(
+      `Unknown detection provider "${context.config.modelProvider}", registered: ${listDetectionProviders().join(", ")}`,
+    );
+  }
+  return factory(context);
+}
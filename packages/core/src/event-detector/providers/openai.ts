@@ -0,0 +1,172 @@
+import { getLogger } from "@logtape/logtape";
+import { OpenAI } from "openai";
+import type { Clock } from "../../lib/clock.js";
+import { zodResponseFormat } from "../../lib/zod4-schema.js";
+import {
+  BatchEventAnalysisSchema,
+  type DetectionProviderOptions,
+  type EventAnalysis,
+  EventAnalysisSchema,
+} from "../def.js";
+import type {
+  DetectionProvider,
+  DetectionProviderFactory,
+  DetectionRequest,
+} from "./_base.js";
+
+/**
+ * Chat Completions provider with structured outputs.
+ * Also serves any OpenAI-compatible server (llama.cpp, Ollama, vLLM, mocks) via `baseURL`.
+ */
+export class OpenAIDetectionProvider implements DetectionProvider {
+  private client: OpenAI;
+  private logger = getLogger(["ai-reaction", "detection-provider", "openai"]);
+
+  constructor(
+    readonly id: string,
+    private model: string,
+    private options: DetectionProviderOptions & { apiKey?: string },
+    private clock: Clock,
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      defaultHeaders: options.headers,
+      dangerouslyAllowBrowser: true,
+      // Retries and timeouts come from the resilience policy alone
+      maxRetries: 0,
+    });
+  }
+
+  async detect({
+    systemPrompt,
+    userPrompt,
+    signal,
+    model = this.model,
+    onUsage,
+    batch,
+    schema = batch ? BatchEventAnalysisSchema : EventAnalysisSchema,
+  }: DetectionRequest): Promise<EventAnalysis> {
+    const { reasoningEffort, verbosity, temperature } = this.options;
+
+    this.logger.debug("Calling OpenAI API", {
+      provider: this.id,
+      model,
+      baseURL: this.options.baseURL,
+      hasAbortSignal: !!signal,
+      messageCount: 2,
+    });
+
+    const apiStart = this.clock.now();
+    const response = await this.client.chat.completions.parse(
+      {
+        model,
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt,
+          },
+          {
+            role: "user",
+            content: userPrompt,
+          },
+        ],
+        response_format: zodResponseFormat(
+          schema,
+          batch ? "batch_event_analysis" : "event_analysis",
+        ),
+        ...(reasoningEffort && { reasoning_effort: reasoningEffort }),
+        ...(verbosity && { verbosity }),
+        ...(temperature !== undefined && { temperature }),
+      },
+      { signal },
+    );
+    const apiTimeMs = this.clock.now() - apiStart;
+    if (response.usage) {
+      onUsage?.(
+        {
+          requests: 1,
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+          cachedTokens:
+            response.usage.prompt_tokens_details?.cached_tokens ?? 0,
+        },
+        model,
+      );
+    }
+
+    this.logger.debug("OpenAI API response received", {
+      provider: this.id,
+      model,
+      apiTimeMs: Math.round(apiTimeMs),
+      usage: response.usage,
+      finishReason: response.choices[0]?.finish_reason,
+    });
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      this.logger.error("OpenAI refused request: {refusal}", {
+        refusal: message.refusal,
+        provider: this.id,
+        model,
+      });
+      throw new Error(message.refusal);
+    }
+
+    if (!message?.parsed) {
+      this.logger.error("OpenAI response missing parsed content", {
+        provider: this.id,
+        model,
+        hasMessage: !!message,
+        messageContent: message?.content?.substring(0, 200),
+      });
+      throw new Error("No parsed content in response");
+    }
+
+    const analysis = message.parsed;
+
+    this.logger.debug("OpenAI response parsed successfully", {
+      provider: this.id,
+      model,
+      eventsCount: analysis.events?.length ?? 0,
+      contextLanguage: analysis.context_language,
+      tokenUsage: response.usage,
+    });
+
+    return analysis;
+  }
+}
+
+export const openaiDetectionProvider: DetectionProviderFactory = ({
+  config,
+  apiKeys,
+  clock,
+}) =>
+  new OpenAIDetectionProvider(
+    "openai",
+    config.model,
+    { ...config.providerOptions, apiKey: apiKeys.openai },
+    clock,
+  );
+
+export const openaiCompatibleDetectionProvider: DetectionProviderFactory = ({
+  config,
+  apiKeys,
+  clock,
+}) => {
+  if (!config.providerOptions?.baseURL) {
+    throw new Error(
+      "providerOptions.baseURL is required for the openai-compatible provider",
+    );
+  }
+  return new OpenAIDetectionProvider(
+    "openai-compatible",
+    config.model,
+    {
+      ...config.providerOptions,
+      // Local servers usually ignore the key, but the SDK refuses to start without one
+      apiKey: apiKeys.openaiCompatible || "not-needed",
+    },
+    clock,
+  );
+};
@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VirtualClock } from "../lib/clock.js";
+import type { Turn } from "../type.js";
+import {
+  type DetectionQueueStrategy,
+  defaultDetectionQueueConfig,
+} from "./def.js";
+import {
+  coalesceJobs,
+  type DetectionJob,
+  EventDetectionQueue,
+} from "./queue.js";
+import { locateEvent } from "./span.js";
+
+const job = (turn: Turn): DetectionJob => ({
+  turn,
+  uncommentedText: "",
+  enqueuedAtMs: 0,
+});
+
+describe("coalesceJobs", () => {
+  it("locates a trigger in the original turn of a same-speaker job", () => {
+    const speaker = { id: "host" };
+    const { turn } = coalesceJobs([
+      job({
+        id: "a",
+        content: "so far so good",
+        startTime: 0,
+        endTime: 2,
+        speaker,
+      }),
+      job({
+        id: "b",
+        content: "what a twist",
+        startTime: 2,
+        endTime: 4,
+        speaker,
+      }),
+    ]);
+
+    assert.equal(turn.content, "so far so good what a twist");
+    const span = locateEvent(turn, ["twist"]);
+    assert.deepEqual(span.turnIds, ["b"]);
+    assert.deepEqual(span.triggerSpans, [
+      { turnId: "b", start: 7, end: 12, text: "twist" },
+    ]);
+    assert.ok(span.startTime >= 2 && span.endTime <= 4);
+  });
+
+  it("skips the speaker labels of a mixed-speaker job", () => {
+    const { turn } = coalesceJobs([
+      job({
+        id: "a",
+        content: "any questions?",
+        startTime: 0,
+        endTime: 2,
+        speaker: { id: "host", name: "Host" },
+      }),
+      job({
+        id: "b",
+        content: "why now?",
+        startTime: 2,
+        endTime: 3,
+        speaker: { id: "guest", name: "Guest" },
+      }),
+    ]);
+
+    assert.equal(turn.content, "Host: any questions?\nGuest: why now?");
+    const span = locateEvent(turn, ["why now"]);
+    assert.deepEqual(span.triggerSpans, [
+      { turnId: "b", start: 0, end: 7, text: "why now" },
+    ]);
+    assert.equal(span.startTime, 2);
+  });
+
+  it("keeps the sources of an already aggregated turn", () => {
+    const { turn } = coalesceJobs([
+      job({ id: "a", content: "hello", startTime: 0, endTime: 1 }),
+      job({
+        id: "b+c",
+        content: "big news today",
+        startTime: 1,
+        endTime: 3,
+        sources: [
+          { id: "b", startTime: 1, endTime: 2, offset: 0 },
+          { id: "c", startTime: 2, endTime: 3, offset: 4 },
+        ],
+      }),
+    ]);
+
+    assert.deepEqual(
+      turn.sources?.map(({ id, offset }) => ({ id, offset })),
+      [
+        { id: "a", offset: 0 },
+        { id: "b", offset: 6 },
+        { id: "c", offset: 10 },
+      ],
+    );
+    assert.deepEqual(locateEvent(turn, ["news"]).turnIds, ["c"]);
+  });
+});
+
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+const short = (id: string): Turn => ({
+  id,
+  content: id,
+  startTime: 0,
+  endTime: 1,
+});
+
+/** A queue whose jobs stay in flight until `finish()` is called */
+function createQueue(
+  strategy: DetectionQueueStrategy,
+  overrides: { maxSize?: number; batchSize?: number } = {},
+) {
+  const clock = new VirtualClock();
+  const processed: string[][] = [];
+  const dropped: [string, string][] = [];
+  const replaced: [string, string][] = [];
+  let finishCurrent: (() => void) | undefined;
+  const run = (ids: string[]) =>
+    new Promise<void>((resolve) => {
+      processed.push(ids);
+      finishCurrent = resolve;
+    });
+  const queue = new EventDetectionQueue({
+    config: { ...defaultDetectionQueueConfig, strategy, ...overrides },
+    clock,
+    process: (job) => run([job.turn.id]),
+    processBatch: (jobs) => run(jobs.map((j) => j.turn.id)),
+    onDrop: (job, reason) => dropped.push([job.turn.id, reason]),
+    onReplace: (old, next) => replaced.push([old.turn.id, next.turn.id]),
+  });
+  const enqueue = (...ids: string[]) => {
+    for (const id of ids)
+      queue.enqueue({ turn: short(id), uncommentedText: "" });
+  };
+  const finish = async () => {
+    finishCurrent?.();
+    finishCurrent = undefined;
+    await settle();
+  };
+  return { clock, queue, processed, dropped, replaced, enqueue, finish };
+}
+
+describe("EventDetectionQueue", () => {
+  it("keeps only the newest pending job (latest)", async () => {
+    const { queue, processed, replaced, enqueue, finish } =
+      createQueue("latest");
+
+    enqueue("a", "b", "c");
+    await finish();
+    await finish();
+
+    assert.deepEqual(processed, [["a"], ["c"]]);
+    assert.deepEqual(replaced, [["b", "c"]]);
+    assert.equal(queue.getStatistics().replaced, 1);
+  });
+
+  it("processes in order and drops the oldest over maxSize (fifo)", async () => {
+    const { queue, processed, dropped, enqueue, finish } = createQueue("fifo", {
+      maxSize: 2,
+    });
+
+    enqueue("a", "b", "c", "d");
+    for (let i = 0; i < 3; i++) await finish();
+
+    assert.deepEqual(processed, [["a"], ["c"], ["d"]]);
+    assert.deepEqual(dropped, [
+      ["b", "overflow: more than 2 turns waiting for detection"],
+    ]);
+    assert.equal(queue.getStatistics().dropped, 1);
+  });
+
+  it("merges pending jobs up to maxSize into one (coalesce)", async () => {
+    const { queue, processed, dropped, enqueue, finish } = createQueue(
+      "coalesce",
+      { maxSize: 2 },
+    );
+
+    enqueue("a", "b", "c", "d");
+    await finish();
+    await finish();
+
+    assert.deepEqual(processed, [["a"], ["d"]]);
+    assert.deepEqual(
+      dropped.map(([id]) => id),
+      ["b"],
+    );
+    const stats = queue.getStatistics();
+    assert.equal(stats.merged, 1);
+    assert.equal(stats.processed, 2);
+  });
+
+  it("sends full batches at once and waits for partial ones (batch)", async () => {
+    const { clock, queue, processed, enqueue, finish } = createQueue("batch", {
+      batchSize: 2,
+    });
+
+    enqueue("a", "b", "c");
+    await settle();
+    assert.deepEqual(processed, [["a", "b"]]);
+
+    await finish();
+    assert.equal(processed.length, 1);
+
+    clock.advanceBy(defaultDetectionQueueConfig.batchMaxWaitMs);
+    await settle();
+    assert.deepEqual(processed, [["a", "b"], ["c"]]);
+    await finish();
+    assert.equal(queue.getStatistics().batches, 2);
+  });
+
+  it("reports cleared jobs only when given a reason", async () => {
+    const { queue, dropped, enqueue, finish } = createQueue("fifo");
+
+    enqueue("a", "b", "c");
+    queue.clear("cancelled: seek");
+    enqueue("d");
+    queue.clear();
+    await finish();
+
+    assert.deepEqual(dropped, [
+      ["b", "cancelled: seek"],
+      ["c", "cancelled: seek"],
+    ]);
+    assert.equal(queue.getStatistics().pending, 0);
+  });
+});
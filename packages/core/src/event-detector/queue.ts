@@ -1,32 +1,122 @@
 import { getLogger } from "@logtape/logtape";
 import { createNanoEvents } from "nanoevents";
-import type { Turn } from "../type.js";
+import {
+  type Clock,
+  realTimeClock,
+  type Scheduler,
+  type TimerHandle,
+} from "../lib/clock.js";
+import { isSameSpeaker, speakerLabel } from "../lib/speaker.js";
+import type { Turn, TurnSource } from "../type.js";
+import {
+  type DetectionQueueConfig,
+  defaultDetectionQueueConfig,
+} from "./def.js";
 
 export interface DetectionJob {
   turn: Turn;
   uncommentedText: string;
   fullContext?: string;
-  /** Wall-clock timestamp (ms) when this job was enqueued. */
+  /** Clock timestamp (ms) when this job was enqueued. */
   enqueuedAtMs: number;
 }
 
 type QueueOptions = {
   process: (job: DetectionJob) => Promise<void>;
-  isStale?: (job: DetectionJob) => boolean;
-  onDropStale?: (job: DetectionJob) => void;
+  /** Process the jobs of one batch (batch); without it they are processed one by one */
+  processBatch?: (jobs: DetectionJob[]) => Promise<void>;
+  config?: DetectionQueueConfig;
+  /** Why `job` is too old to process, or null to process it */
+  getStaleReason?: (job: DetectionJob) => string | null;
+  /** A pending job was dropped unprocessed, e.g. stale or the queue was full */
+  onDrop?: (job: DetectionJob, reason: string) => void;
+  /** A pending job was replaced by a newer one before processing */
+  onReplace?: (dropped: DetectionJob, next: DetectionJob) => void;
+  clock?: Clock & Scheduler;
 };
 
+export interface DetectionQueueStatistics {
+  strategy: DetectionQueueConfig["strategy"];
+  pending: number;
+  processed: number;
+  /** Pending jobs replaced by a newer one (latest) */
+  replaced: number;
+  /** Pending jobs folded into a coalesced job (coalesce) */
+  merged: number;
+  /** Jobs dropped as stale, because the queue was full (fifo, batch) or cleared with a reason */
+  dropped: number;
+  /** Batches processed (batch) */
+  batches: number;
+}
+
+/**
+ * Merge pending jobs into one synthetic turn spanning their time range,
+ * recording where each original turn starts in the merged content
+ */
+export function coalesceJobs(jobs: DetectionJob[]): DetectionJob {
+  const first = jobs[0];
+  const last = jobs[jobs.length - 1];
+  const sameSpeaker = jobs.every((j) =>
+    isSameSpeaker(j.turn.speaker, first.turn.speaker),
+  );
+  let content = "";
+  const sources: TurnSource[] = [];
+  for (const [index, { turn }] of jobs.entries()) {
+    if (index > 0) content += sameSpeaker ? " " : "\n";
+    // Keep who said what when the merged turns have different speakers
+    if (!sameSpeaker && turn.speaker) {
+      content += `${speakerLabel(turn.speaker)}: `;
+    }
+    const offset = content.length;
+    content += turn.content;
+    sources.push(
+      ...(turn.sources ?? [{ ...turn, offset: 0 }]).map((source) => ({
+        id: source.id,
+        startTime: source.startTime,
+        endTime: source.endTime,
+        offset: offset + source.offset,
+      })),
+    );
+  }
+  return {
+    // Buffers were snapshotted when the newest turn arrived
+    ...last,
+    turn: {
+      id: last.turn.id,
+      content,
+      startTime: first.turn.startTime,
+      endTime: last.turn.endTime,
+      speaker: sameSpeaker ? first.turn.speaker : undefined,
+      sources,
+    },
+  };
+}
+
 export interface EventDetectionQueueEvents {
   error: (error: Error, job: DetectionJob) => void;
 }
 
 /**
- * Single-slot in-memory queue that prefers the most recent job.
- * If multiple jobs are added while processing, only the last one is kept.
+ * In-memory queue of detection jobs, processed one at a time.
+ * What happens to jobs added while processing depends on `config.strategy`:
+ * - latest: only the last one is kept
+ * - fifo: all are kept in order, up to `maxSize`
+ * - coalesce: all are kept, up to `maxSize`, and merged into one job when processing starts
+ * - batch: all are kept in order, up to `maxSize`, and processed in batches
+ *   of up to `batchSize`, waiting at most `batchMaxWaitMs` for a batch to fill
  */
 export class EventDetectionQueue {
   private processing = false;
-  private pendingJob: DetectionJob | null = null;
+  private pending: DetectionJob[] = [];
+  private config: DetectionQueueConfig;
+  private stats = {
+    processed: 0,
+    replaced: 0,
+    merged: 0,
+    dropped: 0,
+    batches: 0,
+  };
+  private batchTimer: TimerHandle | undefined; // Fires when the oldest pending job has waited long enough
   private emitter = createNanoEvents<EventDetectionQueueEvents>();
   private logger = getLogger(["ai-reaction", "event-detection-queue"]);
 
@@ -37,20 +127,20 @@ export class EventDetectionQueue {
     this.emitter.on(event, listener);
   }
 
-  constructor(private options: QueueOptions) {}
+  private clock: Clock & Scheduler;
 
-  enqueue(job: Omit<DetectionJob, "enqueuedAtMs">): void {
-    const withTimestamp: DetectionJob = { ...job, enqueuedAtMs: Date.now() };
+  constructor(private options: QueueOptions) {
+    this.clock = options.clock ?? realTimeClock;
+    this.config = options.config ?? defaultDetectionQueueConfig;
+  }
 
-    if (this.pendingJob) {
-      this.logger.debug("Replacing pending job with newer one", {
-        oldJobTurnId: this.pendingJob.turn.id,
-        newJobTurnId: job.turn.id,
-        oldJobAgeMs: Date.now() - this.pendingJob.enqueuedAtMs,
-      });
-    }
+  enqueue(job: Omit<DetectionJob, "enqueuedAtMs">): void {
+    const withTimestamp: DetectionJob = {
+      ...job,
+      enqueuedAtMs: this.clock.now(),
+    };
 
-    this.pendingJob = withTimestamp;
+    this.add(withTimestamp);
 
     this.logger.debug("Job enqueued", {
       turnId: job.turn.id,
@@ -58,6 +148,8 @@ export class EventDetectionQueue {
       fullContextLength: job.fullContext?.length,
       uncommentedTextLength: job.uncommentedText?.length,
       enqueuedAtMs: withTimestamp.enqueuedAtMs,
+      strategy: this.config.strategy,
+      pending: this.pending.length,
       isProcessing: this.processing,
     });
 
@@ -65,21 +157,78 @@ export class EventDetectionQueue {
     void this.processNext();
   }
 
-  clear(): void {
-    if (this.pendingJob) {
-      this.logger.debug("Clearing pending job", {
-        turnId: this.pendingJob.turn.id,
-        ageMs: Date.now() - this.pendingJob.enqueuedAtMs,
+  private add(job: DetectionJob): void {
+    switch (this.config.strategy) {
+      case "latest": {
+        const replaced = this.pending;
+        this.pending = [job];
+        for (const old of replaced) {
+          this.stats.replaced++;
+          this.logger.debug("Replacing pending job with newer one", {
+            oldJobTurnId: old.turn.id,
+            newJobTurnId: job.turn.id,
+            oldJobAgeMs: this.clock.now() - old.enqueuedAtMs,
+          });
+          this.options.onReplace?.(old, job);
+        }
+        break;
+      }
+      case "fifo":
+      case "coalesce":
+      case "batch": {
+        this.pending.push(job);
+        while (this.pending.length > this.config.maxSize) {
+          const dropped = this.pending.shift()!;
+          this.stats.dropped++;
+          this.logger.debug("Queue full, dropping oldest job", {
+            turnId: dropped.turn.id,
+            maxSize: this.config.maxSize,
+          });
+          this.options.onDrop?.(
+            dropped,
+            `overflow: more than ${this.config.maxSize} turns waiting for detection`,
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  /** Discard pending jobs, reporting each through `onDrop` when a `reason` is given */
+  clear(reason?: string): void {
+    const cleared = this.pending;
+    if (cleared.length > 0) {
+      this.logger.debug("Clearing pending jobs", {
+        turnIds: cleared.map((j) => j.turn.id),
+        oldestAgeMs: this.clock.now() - cleared[0].enqueuedAtMs,
+        reason,
       });
     }
-    this.pendingJob = null;
+    this.pending = [];
+    if (this.batchTimer !== undefined) {
+      this.clock.clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+    if (reason === undefined) return;
+    for (const job of cleared) {
+      this.stats.dropped++;
+      this.options.onDrop?.(job, reason);
+    }
+  }
+
+  getStatistics(): DetectionQueueStatistics {
+    return {
+      strategy: this.config.strategy,
+      pending: this.pending.length,
+      ...this.stats,
+    };
   }
 
   private async processNext(): Promise<void> {
     this.logger.trace("Processing next job check", () => ({
       processing: this.processing,
-      hasPendingJob: !!this.pendingJob,
-      pendingJobTurnId: this.pendingJob?.turn.id,
+      pending: this.pending.length,
+      nextJobTurnId: this.pending[0]?.turn.id,
     }));
 
     if (this.processing) {
@@ -87,6 +236,11 @@ export class EventDetectionQueue {
       return;
     }
 
+    if (this.config.strategy === "batch") {
+      await this.processBatches();
+      return;
+    }
+
     this.processing = true;
     this.logger.debug("Started processing queue");
 
@@ -94,12 +248,13 @@ export class EventDetectionQueue {
       let processedCount = 0;
       let droppedCount = 0;
 
-      // Drain loop: always process only the latest pending job
+      // Drain loop: process pending jobs in order
       // and drop stale ones based on provided policy.
-      // No abort of in-flight processing.
       while (true) {
-        const job = this.pendingJob;
-        this.pendingJob = null;
+        const job =
+          this.config.strategy === "coalesce"
+            ? this.takeCoalesced()
+            : this.pending.shift();
 
         if (!job) {
           this.logger.debug("Queue drained", {
@@ -109,16 +264,19 @@ export class EventDetectionQueue {
           break;
         }
 
-        const jobAgeMs = Date.now() - job.enqueuedAtMs;
+        const jobAgeMs = this.clock.now() - job.enqueuedAtMs;
 
-        if (this.options.isStale?.(job)) {
+        const staleReason = this.options.getStaleReason?.(job) ?? null;
+        if (staleReason) {
           droppedCount++;
+          this.stats.dropped++;
           this.logger.debug("Dropping stale job", {
             turnId: job.turn.id,
             ageMs: jobAgeMs,
             enqueuedAtMs: job.enqueuedAtMs,
+            reason: staleReason,
           });
-          this.options.onDropStale?.(job);
+          this.options.onDrop?.(job, staleReason);
           continue;
         }
 
@@ -128,9 +286,9 @@ export class EventDetectionQueue {
           contentLength: job.turn.content?.length ?? 0,
         });
 
-        const processStart = performance.now();
+        const processStart = this.clock.now();
         await this.options.process(job).catch((err) => {
-          const processTimeMs = performance.now() - processStart;
+          const processTimeMs = this.clock.now() - processStart;
           this.logger.error("Job processing error: {message}", {
             message: (err as Error)?.message,
             name: (err as Error)?.name,
@@ -143,8 +301,9 @@ export class EventDetectionQueue {
           this.emitter.emit("error", err as Error, job);
         });
 
-        const processTimeMs = performance.now() - processStart;
+        const processTimeMs = this.clock.now() - processStart;
         processedCount++;
+        this.stats.processed++;
 
         this.logger.debug("Job processed successfully", {
           turnId: job.turn.id,
@@ -157,4 +316,95 @@ export class EventDetectionQueue {
       this.logger.debug("Finished processing queue");
     }
   }
+
+  /** Every pending job merged into one (coalesce) */
+  private takeCoalesced(): DetectionJob | undefined {
+    const jobs = this.pending;
+    this.pending = [];
+    if (jobs.length <= 1) return jobs[0];
+    this.stats.merged += jobs.length - 1;
+    this.logger.debug("Merging pending jobs", {
+      mergedTurnIds: jobs.map((j) => j.turn.id),
+    });
+    return coalesceJobs(jobs);
+  }
+
+  /** Drain loop of the batch strategy: send full batches, or whatever has waited long enough */
+  private async processBatches(): Promise<void> {
+    this.processing = true;
+    if (this.batchTimer !== undefined) {
+      this.clock.clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+
+    try {
+      while (this.pending.length > 0) {
+        const waitedMs = this.clock.now() - this.pending[0].enqueuedAtMs;
+        if (
+          this.pending.length < this.config.batchSize &&
+          waitedMs < this.config.batchMaxWaitMs
+        ) {
+          // Give the batch a chance to fill; more jobs arriving restart this loop
+          this.batchTimer = this.clock.setTimeout(() => {
+            this.batchTimer = undefined;
+            void this.processNext();
+          }, this.config.batchMaxWaitMs - waitedMs);
+          this.logger.trace("Waiting for the batch to fill", {
+            pending: this.pending.length,
+            waitMs: this.config.batchMaxWaitMs - waitedMs,
+          });
+          break;
+        }
+
+        const batch: DetectionJob[] = [];
+        for (const job of this.pending.splice(0, this.config.batchSize)) {
+          const staleReason = this.options.getStaleReason?.(job) ?? null;
+          if (staleReason) {
+            this.stats.dropped++;
+            this.logger.debug("Dropping stale job", {
+              turnId: job.turn.id,
+              ageMs: this.clock.now() - job.enqueuedAtMs,
+              reason: staleReason,
+            });
+            this.options.onDrop?.(job, staleReason);
+          } else {
+            batch.push(job);
+          }
+        }
+        if (batch.length === 0) continue;
+
+        this.logger.debug("Processing batch", {
+          turnIds: batch.map((job) => job.turn.id),
+          oldestAgeMs: this.clock.now() - batch[0].enqueuedAtMs,
+        });
+
+        const processStart = this.clock.now();
+        const processBatch =
+          this.options.processBatch ??
+          (async (jobs: DetectionJob[]) => {
+            for (const job of jobs) await this.options.process(job);
+          });
+        await processBatch(batch).catch((err) => {
+          const newest = batch[batch.length - 1];
+          this.logger.error("Batch processing error: {message}", {
+            message: (err as Error)?.message,
+            name: (err as Error)?.name,
+            stack: (err as Error)?.stack,
+            turnIds: batch.map((job) => job.turn.id),
+            processTimeMs: Math.round(this.clock.now() - processStart),
+          });
+          this.emitter.emit("error", err as Error, newest);
+        });
+
+        this.stats.processed += batch.length;
+        this.stats.batches++;
+        this.logger.debug("Batch processed", {
+          turnIds: batch.map((job) => job.turn.id),
+          processTimeMs: Math.round(this.clock.now() - processStart),
+        });
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
 }
@@ -1,41 +1,118 @@
-import { GoogleGenAI } from "@google/genai";
 import { getLogger } from "@logtape/logtape";
 import { nanoid } from "nanoid";
-import { OpenAI } from "openai";
 import type { z } from "zod/v4";
 import type { ApiKeys } from "../config.js";
-import { zodGeminiFormat, zodResponseFormat } from "../lib/zod4-schema.js";
-import type { Event, EventType, Turn } from "../type.js";
 import {
+  type DetectionCache,
+  detectionCacheKey,
+} from "../detection-cache/index.js";
+import { type Clock, realTimeClock } from "../lib/clock.js";
+import { speakerLabel } from "../lib/speaker.js";
+import type { ResilientCaller } from "../resilience/index.js";
+import type { Event, Turn } from "../type.js";
+import {
+  type BatchEventAnalysis,
+  batchSystemPrompt,
+  buildBatchUserPrompt,
   buildUserPrompt,
+  compileEventAnalysisSchemas,
   type DetectedEventSchema,
-  EventAnalysisSchema,
+  type DetectionInput,
+  type DetectOptions,
+  type Detector,
+  defaultEventDetectorConfig,
+  defaultEventThreshold,
+  describeCustomEventTypes,
+  type EventAnalysis,
   type EventDetectorConfig,
+  type FilteredEvent,
   systemPrompt,
 } from "./def.js";
+import { HeuristicEventDetector } from "./heuristic.js";
+import {
+  createDetectionProvider,
+  type DetectionProvider,
+  type DetectionRequest,
+} from "./providers/index.js";
+import { locateEvent } from "./span.js";
+import { EventSuppressor } from "./suppression.js";
+
+/** One provider of the fallback chain, with the model it is asked for */
+interface ChainLink {
+  provider: DetectionProvider;
+  model: string;
+  /** Each provider has its own circuit, so a failing primary does not block the fallbacks */
+  caller?: ResilientCaller;
+}
 
-type RequestOptions = {
-  signal?: AbortSignal;
-};
+/** System prompt and response schema of single-turn or batch requests */
+interface RequestFormat {
+  systemPrompt: string;
+  schema: z.ZodType<EventAnalysis>;
+}
 
-export class EventDetector {
-  private lastEventTime: Map<EventType, number> = new Map();
+export class EventDetector implements Detector {
+  private suppressor: EventSuppressor;
+  private chain: ChainLink[]; // Primary provider first, then the fallbacks
+  private heuristic?: HeuristicEventDetector;
+  private formats: { single: RequestFormat; batch: RequestFormat };
 
   private logger = getLogger(["ai-reaction", "event-detector"]);
 
   constructor(
     private config: EventDetectorConfig,
-    private apiKeys: ApiKeys,
-  ) {}
+    apiKeys: ApiKeys,
+    private clock: Clock = realTimeClock,
+    provider?: DetectionProvider,
+    /** Timeouts, retries and circuit breaking for provider calls */
+    resilience?: ResilientCaller,
+    /** Reuse results of identical requests instead of calling the provider again */
+    private cache?: DetectionCache,
+  ) {
+    this.chain = [
+      {
+        provider:
+          provider ?? createDetectionProvider({ config, apiKeys, clock }),
+        model: config.model,
+        caller: resilience,
+      },
+      ...(config.fallbacks ?? []).map((fallback) => ({
+        provider: createDetectionProvider({
+          config: { ...config, ...fallback },
+          apiKeys,
+          clock,
+        }),
+        model: fallback.model,
+        caller: resilience?.fork(`${fallback.modelProvider}/${fallback.model}`),
+      })),
+    ];
+    const customTypes = config.customEventTypes ?? [];
+    const customPrompt = describeCustomEventTypes(customTypes);
+    const schemas = compileEventAnalysisSchemas(customTypes);
+    this.formats = {
+      single: {
+        systemPrompt: systemPrompt + customPrompt,
+        schema: schemas.single,
+      },
+      batch: {
+        systemPrompt: batchSystemPrompt + customPrompt,
+        schema: schemas.batch,
+      },
+    };
+    this.suppressor = new EventSuppressor(
+      config.eventCooldowns ?? {},
+      config.repetition ?? defaultEventDetectorConfig.repetition!,
+    );
+    if (config.heuristicFallback) {
+      this.heuristic = new HeuristicEventDetector(config.heuristic);
+    }
+  }
 
   async detect(
-    {
-      turn,
-      uncommentedText,
-      fullContext,
-    }: { turn: Turn; uncommentedText: string; fullContext?: string },
-    { signal }: RequestOptions = {},
+    input: DetectionInput,
+    options: DetectOptions = {},
   ): Promise<Event[]> {
+    const { turn, uncommentedText, fullContext } = input;
     const events: Event[] = [];
     const now = turn.endTime;
     const contextForDetection = fullContext || uncommentedText;
@@ -50,25 +127,31 @@ export class EventDetector {
       timestamp: now,
     }));
 
-    const detectionStart = performance.now();
+    const detectionStart = this.clock.now();
     try {
       // AI-powered event detection using uncommented text for better context
       const aiEvents = await this.detectWithAI(
         {
-          content: turn.content,
+          turn,
+          speaker: turn.speaker && speakerLabel(turn.speaker),
           uncommentedText,
           fullContext: contextForDetection,
-          timestamp: now,
         },
-        { signal },
-      );
+        options,
+      ).catch((error) => {
+        if (options.signal?.aborted || !this.heuristic) throw error;
+        this.logger.warn(
+          "Every detection provider failed, using heuristics: {message}",
+          { message: (error as Error)?.message, turnId: turn.id },
+        );
+        return this.heuristic
+          .detect(input, options)
+          .then((events) => this.applyThresholds(events, turn, options));
+      });
 
-      const detectionTimeMs = performance.now() - detectionStart;
+      const detectionTimeMs = this.clock.now() - detectionStart;
 
-      for (const aiEvent of aiEvents) {
-        events.push(aiEvent);
-        this.lastEventTime.set(aiEvent.type, now);
-      }
+      events.push(...this.suppress(aiEvents, turn, options));
 
       this.logger.info("AI event detection completed", {
         turnId: turn.id,
@@ -88,7 +171,8 @@ export class EventDetector {
 
       return events;
     } catch (error) {
-      const detectionTimeMs = performance.now() - detectionStart;
+      if (options.signal?.aborted) throw error;
+      const detectionTimeMs = this.clock.now() - detectionStart;
       this.logger.error("AI event detection failed: {message}", {
         message: (error as Error)?.message,
         name: (error as Error)?.name,
@@ -101,94 +185,276 @@ export class EventDetector {
     }
   }
 
+  /**
+   * Detect several turns in one request: the turns go to the model as a JSON array
+   * and every event comes back tagged with the id of its turn.
+   * Uses the context snapshots of the newest input.
+   */
+  async detectBatch(
+    inputs: DetectionInput[],
+    options: DetectOptions = {},
+  ): Promise<Event[][]> {
+    if (inputs.length <= 1) {
+      return Promise.all(inputs.map((input) => this.detect(input, options)));
+    }
+    const newest = inputs[inputs.length - 1];
+    const uncommentedText = newest.uncommentedText;
+    const fullContext = newest.fullContext || uncommentedText;
+
+    this.logger.debug("Starting AI batch event detection", () => ({
+      turnIds: inputs.map((input) => input.turn.id),
+      uncommentedTextLength: uncommentedText.length,
+      fullContextLength: fullContext.length,
+      modelProvider: this.config.modelProvider,
+      model: this.config.model,
+    }));
+
+    const detectionStart = this.clock.now();
+    try {
+      const userPrompt = buildBatchUserPrompt(
+        uncommentedText,
+        fullContext.slice(-1500),
+        inputs.map(({ turn }) => ({
+          id: turn.id,
+          start: turn.startTime,
+          end: turn.endTime,
+          ...(turn.speaker && { speaker: speakerLabel(turn.speaker) }),
+          content: turn.content,
+        })),
+      );
+      const result = await this.requestChain(
+        this.formats.batch,
+        userPrompt,
+        options,
+        true,
+      ).then(
+        ({ analysis, provider, model }) => {
+          // Events tagged with an unknown turn go to the newest one
+          const indexById = new Map(
+            inputs.map((input, index) => [input.turn.id, index]),
+          );
+          const grouped = inputs.map((): BatchEventAnalysis["events"] => []);
+          for (const event of (analysis as BatchEventAnalysis).events) {
+            const index = indexById.get(event.turn_id);
+            if (index === undefined) {
+              this.logger.debug("Event tagged with unknown turn", {
+                turnId: event.turn_id,
+                eventType: event.type,
+              });
+            }
+            grouped[index ?? inputs.length - 1].push(event);
+          }
+          return grouped.map((events, index) =>
+            this.toEvents(
+              events,
+              analysis.context_language,
+              inputs[index].turn,
+              provider,
+              model,
+              options,
+            ),
+          );
+        },
+        (error) => {
+          if (options.signal?.aborted || !this.heuristic) throw error;
+          this.logger.warn(
+            "Every detection provider failed, using heuristics: {message}",
+            {
+              message: (error as Error)?.message,
+              turnIds: inputs.map((input) => input.turn.id),
+            },
+          );
+          const heuristic = this.heuristic;
+          return Promise.all(
+            inputs.map(async (input) =>
+              this.applyThresholds(
+                await heuristic.detect(input, options),
+                input.turn,
+                options,
+              ),
+            ),
+          );
+        },
+      );
+
+      const suppressed = result.map((events, index) =>
+        this.suppress(events, inputs[index].turn, options),
+      );
+
+      this.logger.info("AI batch event detection completed", {
+        turnIds: inputs.map((input) => input.turn.id),
+        detectionTimeMs: Math.round(this.clock.now() - detectionStart),
+        eventsPerTurn: suppressed.map((events) => events.length),
+      });
+
+      return suppressed;
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      this.logger.error("AI batch event detection failed: {message}", {
+        message: (error as Error)?.message,
+        name: (error as Error)?.name,
+        turnIds: inputs.map((input) => input.turn.id),
+        detectionTimeMs: Math.round(this.clock.now() - detectionStart),
+        modelProvider: this.config.modelProvider,
+        stack: (error as Error)?.stack,
+      });
+      throw error;
+    }
+  }
+
   private async detectWithAI(
     {
-      content,
+      turn,
+      speaker,
       uncommentedText,
       fullContext,
-      timestamp,
     }: {
-      content: string;
+      turn: Turn;
+      speaker?: string;
       uncommentedText: string;
       fullContext: string;
-      timestamp: number;
     },
-    { signal }: RequestOptions,
-  ) {
+    options: DetectOptions,
+  ): Promise<Event[]> {
     const immediateContext = uncommentedText;
     const broadContext = fullContext.slice(-1500);
-    const userPrompt = buildUserPrompt(immediateContext, broadContext, content);
-    const provider = this.config.modelProvider;
+    const userPrompt = buildUserPrompt(
+      immediateContext,
+      broadContext,
+      turn.content,
+      speaker,
+    );
 
     this.logger.debug("Preparing AI detection request", () => ({
-      provider,
-      model: this.config.model,
+      providers: this.chain.map((link) => link.provider.id),
+      model: options.model ?? this.config.model,
       immediateContextLength: immediateContext.length,
       broadContextLength: broadContext.length,
       userPromptLength: userPrompt.length,
-      systemPromptLength: systemPrompt.length,
+      systemPromptLength: this.formats.single.systemPrompt.length,
     }));
 
-    const apiCallStart = performance.now();
+    const { analysis, provider, model } = await this.requestChain(
+      this.formats.single,
+      userPrompt,
+      options,
+      false,
+    );
+    return this.toEvents(
+      analysis.events,
+      analysis.context_language,
+      turn,
+      provider,
+      model,
+      options,
+    );
+  }
+
+  /** Ask each provider of the chain in turn until one answers */
+  private async requestChain(
+    format: RequestFormat,
+    userPrompt: string,
+    options: DetectOptions,
+    batch: boolean,
+  ): Promise<{ analysis: EventAnalysis; provider: string; model: string }> {
+    let lastError: unknown;
+    for (const [index, link] of this.chain.entries()) {
+      try {
+        return await this.callProvider(
+          link,
+          index,
+          format,
+          userPrompt,
+          options,
+          batch,
+        );
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        lastError = error;
+        if (index < this.chain.length - 1) {
+          this.logger.warn(
+            "Detection provider {provider} failed, trying the next one: {message}",
+            {
+              provider: link.provider.id,
+              message: (error as Error)?.message,
+            },
+          );
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Ask one provider of the chain through its own circuit, so an open circuit
+   * sends detection straight to the next provider. Only the primary honours
+   * the per-request `model` override.
+   */
+  private async callProvider(
+    { provider, model: configuredModel, caller }: ChainLink,
+    index: number,
+    { systemPrompt, schema }: RequestFormat,
+    userPrompt: string,
+    options: DetectOptions,
+    batch: boolean,
+  ): Promise<{ analysis: EventAnalysis; provider: string; model: string }> {
+    const primary = index === 0;
+    const model = primary
+      ? (options.model ?? configuredModel)
+      : configuredModel;
+    const request: DetectionRequest = {
+      systemPrompt,
+      userPrompt,
+      signal: options.signal,
+      model,
+      onUsage: (usage, usedModel) =>
+        options.onUsage?.(usage, usedModel, provider.id),
+      ...(batch && { batch }),
+      schema,
+    };
+
+    const cacheKey =
+      this.cache &&
+      detectionCacheKey({
+        provider: provider.id,
+        model,
+        systemPrompt,
+        userPrompt,
+      });
+    const apiCallStart = this.clock.now();
     try {
+      const cached = cacheKey ? await this.cache!.get(cacheKey) : undefined;
       const analysis =
-        provider === "google"
-          ? await this.detectWithGemini(systemPrompt, userPrompt, { signal })
-          : await this.detectWithOpenAI(systemPrompt, userPrompt, { signal });
+        cached ??
+        (caller
+          ? await caller.run(
+              (signal) => provider.detect({ ...request, signal }),
+              { signal: options.signal },
+            )
+          : await provider.detect(request));
+      if (cacheKey && !cached) await this.cache!.set(cacheKey, analysis);
 
-      const apiCallTimeMs = performance.now() - apiCallStart;
+      const apiCallTimeMs = this.clock.now() - apiCallStart;
 
       this.logger.debug("AI API call completed", {
-        provider,
-        model: this.config.model,
+        provider: provider.id,
+        model,
+        batch,
+        cached: !!cached,
         apiCallTimeMs: Math.round(apiCallTimeMs),
         rawEventsCount: analysis.events.length,
         contextLanguage: analysis.context_language,
       });
 
-      // Filter and transform events
-      const filteredEvents = analysis.events.filter((event) => {
-        const passed = this.filterDetectedEvents(event);
-        if (!passed) {
-          this.logger.trace("Event filtered out", {
-            eventType: event.type,
-            confidence: event.confidence,
-            intensity: event.intensity,
-            reason: this.getFilterReason(event),
-          });
-        }
-        return passed;
-      });
-
-      this.logger.debug("Event filtering completed", {
-        rawEventsCount: analysis.events.length,
-        filteredEventsCount: filteredEvents.length,
-        filteredOutCount: analysis.events.length - filteredEvents.length,
-      });
-
-      return filteredEvents.map(
-        (event): Event => ({
-          id: nanoid(),
-          type: event.type,
-          confidence: event.confidence,
-          timestamp,
-          duration: 0,
-          intensity: event.intensity,
-          triggers: event.triggers,
-          metadata: {
-            reasoning: event.reasoning,
-            language: analysis.context_language,
-            contentQualityScore: event.content_quality_score,
-          },
-        }),
-      );
+      return { analysis, provider: provider.id, model };
     } catch (error) {
-      const apiCallTimeMs = performance.now() - apiCallStart;
+      if (options.signal?.aborted) throw error;
+      const apiCallTimeMs = this.clock.now() - apiCallStart;
       this.logger.error("AI detection API call failed: {message}", {
         message: (error as Error)?.message,
         name: (error as Error)?.name,
-        provider,
-        model: this.config.model,
+        provider: provider.id,
+        model,
         apiCallTimeMs: Math.round(apiCallTimeMs),
         stack: (error as Error)?.stack,
       });
@@ -196,217 +462,117 @@ export class EventDetector {
     }
   }
 
-  private filterDetectedEvents(
-    event: z.infer<typeof DetectedEventSchema>,
-  ): boolean {
-    if (event.confidence < this.config.detectionSensitivity) {
-      return false;
-    }
-    if (
-      (event.type === "emotion_peak" || event.type === "topic_change") &&
-      event.intensity < this.config.emotionThreshold
-    ) {
-      return false;
-    }
-    if (
-      (event.type === "topic_change" ||
-        event.type === "question_raised" ||
-        event.type === "conclusion_reached" ||
-        event.type === "summary_point") &&
-      event.intensity < this.config.topicTransitionThreshold
-    ) {
-      return false;
-    }
-    if (
-      event.type === "key_point" &&
-      event.intensity < this.config.keypointDensityThreshold
-    ) {
-      return false;
-    }
-    return true;
-  }
-
-  private getFilterReason(event: z.infer<typeof DetectedEventSchema>): string {
-    if (event.confidence < this.config.detectionSensitivity) {
-      return `confidence ${event.confidence} below threshold ${this.config.detectionSensitivity}`;
-    }
-    if (
-      (event.type === "emotion_peak" || event.type === "topic_change") &&
-      event.intensity < this.config.emotionThreshold
-    ) {
-      return `emotion/topic intensity ${event.intensity} below threshold ${this.config.emotionThreshold}`;
-    }
-    if (
-      (event.type === "topic_change" ||
-        event.type === "question_raised" ||
-        event.type === "conclusion_reached" ||
-        event.type === "summary_point") &&
-      event.intensity < this.config.topicTransitionThreshold
-    ) {
-      return `topic transition intensity ${event.intensity} below threshold ${this.config.topicTransitionThreshold}`;
-    }
-    if (
-      event.type === "key_point" &&
-      event.intensity < this.config.keypointDensityThreshold
-    ) {
-      return `key point intensity ${event.intensity} below threshold ${this.config.keypointDensityThreshold}`;
-    }
-    return "passed";
+  /** Turn detected events into events and apply the thresholds of their type */
+  private toEvents(
+    detected: z.infer<typeof DetectedEventSchema>[],
+    language: string,
+    turn: Turn,
+    provider: string,
+    model: string,
+    options: DetectOptions,
+  ): Event[] {
+    const events = detected.map(
+      (detectedEvent): Event => ({
+        id: nanoid(),
+        type: detectedEvent.type,
+        confidence: detectedEvent.confidence,
+        timestamp: turn.endTime,
+        ...locateEvent(turn, detectedEvent.triggers),
+        intensity: detectedEvent.intensity,
+        triggers: detectedEvent.triggers,
+        provider,
+        metadata: {
+          model,
+          reasoning: detectedEvent.reasoning,
+          language,
+          contentQualityScore: detectedEvent.content_quality_score,
+        },
+      }),
+    );
+    return this.applyThresholds(events, turn, options);
   }
 
-  private async detectWithGemini(
-    systemPrompt: string,
-    userPrompt: string,
-    { signal }: RequestOptions,
-  ) {
-    const { responseSchema, parse } = zodGeminiFormat(EventAnalysisSchema);
-
-    if (this.config.modelProvider !== "google") {
-      throw new Error("Invalid model provider");
+  /**
+   * Drop events below the thresholds of their type, reporting them through
+   * `onFiltered`; provider and heuristic fallback events alike
+   */
+  private applyThresholds(
+    detected: Event[],
+    turn: Turn,
+    options: DetectOptions,
+  ): Event[] {
+    const events: Event[] = [];
+    const filtered: FilteredEvent[] = [];
+    for (const event of detected) {
+      const reason = this.getFilterReason(event);
+      if (reason) {
+        this.logger.trace("Event filtered out", {
+          eventType: event.type,
+          confidence: event.confidence,
+          intensity: event.intensity,
+          reason,
+        });
+        filtered.push({ event, reason });
+      } else {
+        events.push(event);
+      }
     }
 
-    const google = new GoogleGenAI({ apiKey: this.apiKeys.google });
-
-    this.logger.debug("Calling Gemini API", {
-      model: this.config.model,
-      hasAbortSignal: !!signal,
+    this.logger.debug("Event filtering completed", {
+      rawEventsCount: detected.length,
+      filteredEventsCount: events.length,
+      filteredOutCount: filtered.length,
     });
+    if (filtered.length > 0) options.onFiltered?.(filtered, turn);
 
-    const apiStart = performance.now();
-    const response = await google.models.generateContent({
-      model: this.config.model,
-      contents: `${systemPrompt}\n\n${userPrompt}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema,
-        abortSignal: signal,
-      },
-    });
-    const apiTimeMs = performance.now() - apiStart;
-
-    this.logger.debug("Gemini API response received", {
-      model: this.config.model,
-      apiTimeMs: Math.round(apiTimeMs),
-      hasText: !!response.text,
-    });
-
-    const responseText = response.text;
-    if (!responseText) {
-      this.logger.error("Gemini response missing text", {
-        model: this.config.model,
-        responseKeys: Object.keys(response),
-      });
-      throw new Error("No text in Gemini response");
-    }
-
-    const parseStart = performance.now();
-    const analysis = parse(responseText);
-    const parseTimeMs = performance.now() - parseStart;
+    return events;
+  }
 
-    if (!analysis) {
-      this.logger.error("Failed to parse Gemini response", {
-        model: this.config.model,
-        responseTextLength: responseText.length,
-        responsePreview: responseText.substring(0, 200),
+  /**
+   * Apply cooldowns and repetition suppression, reporting dropped events through
+   * `onFiltered` and earlier events they were merged into through `onUpdated`
+   */
+  private suppress(
+    events: Event[],
+    turn: Turn,
+    options: DetectOptions,
+  ): Event[] {
+    const result = this.suppressor.apply(events, turn);
+    if (result.filtered.length > 0) {
+      this.logger.debug("Repeated events suppressed", {
+        turnId: turn.id,
+        suppressed: result.filtered.map(({ event, reason }) => ({
+          eventType: event.type,
+          reason,
+        })),
       });
-      throw new Error("No analysis in Gemini response");
+      options.onFiltered?.(result.filtered, turn);
     }
-
-    this.logger.debug("Gemini response parsed successfully", {
-      model: this.config.model,
-      parseTimeMs: Math.round(parseTimeMs),
-      eventsCount: analysis.events?.length ?? 0,
-      contextLanguage: analysis.context_language,
-    });
-
-    return analysis;
+    if (result.updated.length > 0) options.onUpdated?.(result.updated, turn);
+    return result.events;
   }
 
-  private async detectWithOpenAI(
-    systemPrompt: string,
-    userPrompt: string,
-    { signal }: RequestOptions,
-  ) {
-    if (this.config.modelProvider !== "openai") {
-      throw new Error("Invalid model provider");
-    }
-
-    const openai = new OpenAI({
-      apiKey: this.apiKeys.openai,
-      dangerouslyAllowBrowser: true,
-    });
-    this.logger.debug("Calling OpenAI API", {
-      model: this.config.model,
-      hasAbortSignal: !!signal,
-      messageCount: 2,
-    });
-
-    const apiStart = performance.now();
-    const response = await openai.chat.completions.parse(
-      {
-        model: this.config.model,
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt,
-          },
-          {
-            role: "user",
-            content: userPrompt,
-          },
-        ],
-        response_format: zodResponseFormat(
-          EventAnalysisSchema,
-          "event_analysis",
-        ),
-        reasoning_effort: "minimal",
-        verbosity: "low",
-      },
-      { signal },
-    );
-    const apiTimeMs = performance.now() - apiStart;
+  seek(time: number): void {
+    this.suppressor.seek(time);
+  }
 
-    this.logger.debug("OpenAI API response received", {
-      model: this.config.model,
-      apiTimeMs: Math.round(apiTimeMs),
-      usage: response.usage,
-      finishReason: response.choices[0]?.finish_reason,
-    });
+  clear(): void {
+    this.suppressor.clear();
+  }
 
-    const message = response.choices[0]?.message;
-    if (message?.refusal) {
-      this.logger.error("OpenAI refused request: {refusal}", {
-        refusal: message.refusal,
-        model: this.config.model,
-      });
-      throw new Error(message.refusal);
+  /** Why `event` falls below the thresholds of its type, or `null` when it passes */
+  private getFilterReason(event: Event): string | null {
+    const { minConfidence, minIntensity, enabled } =
+      this.config.eventThresholds[event.type] ?? defaultEventThreshold;
+    if (!enabled) {
+      return `${event.type} events are disabled`;
     }
-
-    if (!message?.parsed) {
-      this.logger.error("OpenAI response missing parsed content", {
-        model: this.config.model,
-        hasMessage: !!message,
-        messageContent: message?.content?.substring(0, 200),
-      });
-      throw new Error("No parsed content in response");
+    if (event.confidence < minConfidence) {
+      return `confidence ${event.confidence} below threshold ${minConfidence}`;
     }
-
-    const analysis = message.parsed;
-    if (!analysis) {
-      this.logger.error("OpenAI parsed content is null", {
-        model: this.config.model,
-        messageKeys: Object.keys(message),
-      });
-      throw new Error("No analysis in OpenAI response");
+    if (event.intensity < minIntensity) {
+      return `intensity ${event.intensity} below threshold ${minIntensity}`;
     }
-
-    this.logger.debug("OpenAI response parsed successfully", {
-      model: this.config.model,
-      eventsCount: analysis.events?.length ?? 0,
-      contextLanguage: analysis.context_language,
-      tokenUsage: response.usage,
-    });
-
-    return analysis;
+    return null;
   }
 }
@@ -0,0 +1,125 @@
+import type { Event, TriggerSpan, Turn, TurnSource } from "../type.js";
+
+/** Position of an event in the transcript */
+export type EventSpan = Pick<
+  Event,
+  "startTime" | "endTime" | "duration" | "turnIds" | "triggerSpans"
+>;
+
+/** The original turns of `turn`, itself when it was not aggregated */
+function sourcesOf(turn: Turn): TurnSource[] {
+  return turn.sources?.length
+    ? turn.sources
+    : [
+        {
+          id: turn.id,
+          startTime: turn.startTime,
+          endTime: turn.endTime,
+          offset: 0,
+        },
+      ];
+}
+
+/**
+ * Locate `triggers` in the content of `turn` and derive the span of the event:
+ * the source turns containing a trigger and, within them, media times interpolated
+ * from character offsets. Falls back to the whole turn when no trigger is found.
+ */
+export function locateEvent(turn: Turn, triggers: string[]): EventSpan {
+  const content = turn.content ?? "";
+  const haystack = content.toLowerCase();
+  const sources = sourcesOf(turn);
+  const located: { source: TurnSource; start: number; end: number }[] = [];
+
+  for (const trigger of triggers) {
+    const needle = trigger.trim().toLowerCase();
+    if (!needle) continue;
+    const index = haystack.indexOf(needle);
+    if (index < 0) continue;
+    const source = sources.findLast((s) => s.offset <= index) ?? sources[0];
+    const next = sources[sources.indexOf(source) + 1];
+    located.push({
+      source,
+      start: index,
+      end: Math.min(index + needle.length, next?.offset ?? content.length),
+    });
+  }
+
+  if (located.length === 0) {
+    return {
+      startTime: turn.startTime,
+      endTime: turn.endTime,
+      duration: parseFloat((turn.endTime - turn.startTime).toFixed(3)),
+      turnIds: sources.map((source) => source.id),
+      triggerSpans: [],
+    };
+  }
+
+  // Media time of a character offset, assuming an even speaking rate within a turn
+  const timeAt = (source: TurnSource, offset: number) => {
+    const next = sources[sources.indexOf(source) + 1];
+    const length = (next ? next.offset - 1 : content.length) - source.offset;
+    const ratio = length > 0 ? (offset - source.offset) / length : 0;
+    const time =
+      source.startTime +
+      Math.min(1, Math.max(0, ratio)) * (source.endTime - source.startTime);
+    return parseFloat(time.toFixed(3));
+  };
+
+  located.sort((a, b) => a.start - b.start);
+  const first = located[0];
+  const last = located.reduce((a, b) => (b.end > a.end ? b : a));
+  const startTime = timeAt(first.source, first.start);
+  const endTime = timeAt(last.source, last.end);
+  const triggerSpans: TriggerSpan[] = located.map(({ source, start, end }) => ({
+    turnId: source.id,
+    start: start - source.offset,
+    end: end - source.offset,
+    text: content.slice(start, end),
+  }));
+
+  return {
+    startTime,
+    endTime,
+    duration: parseFloat((endTime - startTime).toFixed(3)),
+    turnIds: sources
+      .filter((source) => located.some((l) => l.source === source))
+      .map((source) => source.id),
+    triggerSpans,
+  };
+}
+
+/**
+ * One event spanning `earlier` and `later`, which should have the same type.
+ * Keeps the id of `earlier` and the stronger scores.
+ */
+export function mergeEvents(earlier: Event, later: Event): Event {
+  const startTime = Math.min(earlier.startTime, later.startTime);
+  const endTime = Math.max(earlier.endTime, later.endTime);
+  return {
+    ...earlier,
+    confidence: Math.max(earlier.confidence, later.confidence),
+    intensity: Math.max(earlier.intensity, later.intensity),
+    timestamp: Math.max(earlier.timestamp, later.timestamp),
+    startTime,
+    endTime,
+    duration: parseFloat((endTime - startTime).toFixed(3)),
+    turnIds: [...new Set([...earlier.turnIds, ...later.turnIds])],
+    triggers: [...new Set([...earlier.triggers, ...later.triggers])],
+    triggerSpans: [...earlier.triggerSpans, ...later.triggerSpans],
+  };
+}
+
+/** Merge runs of same-type events, ordered by start time, into spanning events */
+export function mergeConsecutiveEvents(events: Event[]): Event[] {
+  const merged: Event[] = [];
+  for (const event of [...events].sort((a, b) => a.startTime - b.startTime)) {
+    const previous = merged.at(-1);
+    if (previous?.type === event.type) {
+      merged[merged.length - 1] = mergeEvents(previous, event);
+    } else {
+      merged.push(event);
+    }
+  }
+  return merged;
+}
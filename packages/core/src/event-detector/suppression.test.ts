@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Event, Turn } from "../type.js";
+import type { RepetitionSuppression } from "./def.js";
+import { EventSuppressor } from "./suppression.js";
+
+const repetition: RepetitionSuppression = {
+  enabled: true,
+  windowSec: 30,
+  minTriggerOverlap: 0.5,
+  action: "merge",
+  intensityFactor: 0.5,
+};
+
+const turnAt = (id: string, startTime: number, endTime: number): Turn => ({
+  id,
+  content: "",
+  startTime,
+  endTime,
+});
+
+const eventIn = (
+  id: string,
+  turn: Turn,
+  triggers: string[],
+  type = "emotion_peak",
+): Event => ({
+  id,
+  type,
+  confidence: 0.8,
+  timestamp: turn.endTime,
+  duration: turn.endTime - turn.startTime,
+  startTime: turn.startTime,
+  endTime: turn.endTime,
+  turnIds: [turn.id],
+  intensity: 0.6,
+  triggers,
+  triggerSpans: [],
+});
+
+describe("EventSuppressor", () => {
+  it("drops events inside the cooldown of their type", () => {
+    const suppressor = new EventSuppressor(
+      { emotion_peak: 10 },
+      { ...repetition, enabled: false },
+    );
+    const first = turnAt("a", 0, 2);
+    const second = turnAt("b", 2, 6);
+    const third = turnAt("c", 10, 12);
+
+    suppressor.apply([eventIn("e1", first, ["wow"])], first);
+    const cooled = suppressor.apply(
+      [eventIn("e2", second, ["no way"])],
+      second,
+    );
+    const fresh = suppressor.apply([eventIn("e3", third, ["yes"])], third);
+
+    assert.equal(cooled.events.length, 0);
+    assert.equal(
+      cooled.filtered[0].reason,
+      "cooldown: 4.0s since the previous emotion_peak, cooldown 10s",
+    );
+    assert.deepEqual(
+      fresh.events.map((e) => e.id),
+      ["e3"],
+    );
+  });
+
+  it("merges a repeat into an extended copy of the earlier event", () => {
+    const suppressor = new EventSuppressor({}, repetition);
+    const first = turnAt("a", 0, 2);
+    const second = turnAt("b", 5, 7);
+    const earlier = eventIn("e1", first, ["wow", "amazing"]);
+
+    suppressor.apply([earlier], first);
+    const result = suppressor.apply(
+      [eventIn("e2", second, ["Wow", "incredible"])],
+      second,
+    );
+
+    assert.equal(result.events.length, 0);
+    assert.equal(
+      result.filtered[0].reason,
+      "merged into earlier emotion_peak e1",
+    );
+    assert.equal(result.updated.length, 1);
+    const [merged] = result.updated;
+    assert.equal(merged.id, "e1");
+    assert.equal(merged.startTime, 0);
+    assert.equal(merged.endTime, 7);
+    assert.deepEqual(merged.turnIds, ["a", "b"]);
+    // The event already handed out is left untouched
+    assert.equal(earlier.endTime, 2);
+    assert.deepEqual(earlier.turnIds, ["a"]);
+  });
+
+  it("dampens a repeat instead when configured", () => {
+    const dampen = { ...repetition, action: "dampen" as const };
+    const suppressor = new EventSuppressor({}, dampen);
+    const first = turnAt("a", 0, 2);
+    const second = turnAt("b", 5, 7);
+
+    suppressor.apply([eventIn("e1", first, ["wow"])], first);
+    const result = suppressor.apply([eventIn("e2", second, ["wow"])], second);
+
+    assert.equal(result.events.length, 1);
+    assert.equal(result.events[0].intensity, 0.3);
+    assert.equal(result.events[0].metadata?.repeatOf, "e1");
+    assert.equal(result.updated.length, 0);
+  });
+
+  it("keeps events of another type, other triggers or outside the window", () => {
+    const suppressor = new EventSuppressor({}, repetition);
+    const first = turnAt("a", 0, 2);
+    const second = turnAt("b", 5, 7);
+    const late = turnAt("c", 40, 42);
+
+    suppressor.apply([eventIn("e1", first, ["wow"])], first);
+    const result = suppressor.apply(
+      [
+        eventIn("e2", second, ["wow"], "topic_change"),
+        eventIn("e3", second, ["hmm"]),
+      ],
+      second,
+    );
+    const outside = suppressor.apply([eventIn("e4", late, ["wow"])], late);
+
+    assert.deepEqual(
+      result.events.map((e) => e.id),
+      ["e2", "e3"],
+    );
+    assert.deepEqual(
+      outside.events.map((e) => e.id),
+      ["e4"],
+    );
+  });
+
+  it("forgets events after the seek position", () => {
+    const suppressor = new EventSuppressor({ emotion_peak: 10 }, repetition);
+    const later = turnAt("b", 20, 22);
+    const earlier = turnAt("a", 5, 7);
+
+    suppressor.apply([eventIn("e1", later, ["wow"])], later);
+    suppressor.seek(5);
+    const result = suppressor.apply([eventIn("e2", earlier, ["wow"])], earlier);
+
+    assert.deepEqual(
+      result.events.map((e) => e.id),
+      ["e2"],
+    );
+  });
+});
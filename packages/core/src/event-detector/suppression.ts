@@ -0,0 +1,119 @@
+import { getLogger } from "@logtape/logtape";
+import type { Event, EventType, Turn } from "../type.js";
+import type { FilteredEvent, RepetitionSuppression } from "./def.js";
+import { mergeEvents } from "./span.js";
+
+function normalizeTriggers(triggers: string[]): Set<string> {
+  return new Set(
+    triggers.map((trigger) => trigger.trim().toLowerCase()).filter(Boolean),
+  );
+}
+
+/** Share of the smaller trigger set contained in the other (0-1) */
+export function triggerOverlap(a: string[], b: string[]): number {
+  const sa = normalizeTriggers(a);
+  const sb = normalizeTriggers(b);
+  if (sa.size === 0 || sb.size === 0) return 0;
+  let shared = 0;
+  for (const trigger of sa) if (sb.has(trigger)) shared++;
+  return shared / Math.min(sa.size, sb.size);
+}
+
+/**
+ * Drops events inside the cooldown of their type, then merges or dampens
+ * events repeating a recent one of the same type with overlapping triggers.
+ * Times are media seconds, so state follows seeks rather than the wall clock.
+ */
+export class EventSuppressor {
+  private lastEventTime = new Map<EventType, number>();
+  private recent: Event[] = []; // Events a later one may repeat, oldest first
+
+  private logger = getLogger(["ai-reaction", "event-suppressor"]);
+
+  constructor(
+    private cooldowns: Record<string, number>,
+    private repetition: RepetitionSuppression,
+  ) {}
+
+  /**
+   * Suppress the events of `turn`, returning the kept ones, why the others were
+   * dropped, and earlier events that merged repeats extended
+   */
+  apply(
+    events: Event[],
+    turn: Turn,
+  ): { events: Event[]; filtered: FilteredEvent[]; updated: Event[] } {
+    const now = turn.endTime;
+    const { enabled, windowSec, minTriggerOverlap, action, intensityFactor } =
+      this.repetition;
+    this.recent = this.recent.filter(
+      (event) => Math.max(event.timestamp, event.endTime) + windowSec >= now,
+    );
+
+    const kept: Event[] = [];
+    const filtered: FilteredEvent[] = [];
+    const updated = new Map<string, Event>(); // By id, latest version only
+    for (const event of events) {
+      const cooldown = this.cooldowns[event.type] ?? 0;
+      const last = this.lastEventTime.get(event.type);
+      // Turns detected in parallel may finish out of order, so either side counts
+      const gap = last === undefined ? Infinity : Math.abs(now - last);
+      if (gap < cooldown) {
+        filtered.push({
+          event,
+          reason: `cooldown: ${gap.toFixed(1)}s since the previous ${event.type}, cooldown ${cooldown}s`,
+        });
+        continue;
+      }
+
+      const earlier = enabled
+        ? this.recent.findLast(
+            (candidate) =>
+              candidate.type === event.type &&
+              triggerOverlap(candidate.triggers, event.triggers) >=
+                minTriggerOverlap,
+          )
+        : undefined;
+      if (earlier && action === "merge") {
+        // Already handed out, so replace it with an extended copy under the same id
+        const merged = mergeEvents(earlier, event);
+        this.recent[this.recent.indexOf(earlier)] = merged;
+        updated.set(merged.id, merged);
+        filtered.push({
+          event,
+          reason: `merged into earlier ${event.type} ${earlier.id}`,
+        });
+        continue;
+      }
+      if (earlier) {
+        event.intensity = parseFloat(
+          (event.intensity * intensityFactor).toFixed(3),
+        );
+        event.metadata = { ...event.metadata, repeatOf: earlier.id };
+        this.logger.debug("Repeated event dampened", {
+          eventType: event.type,
+          repeatOf: earlier.id,
+          intensity: event.intensity,
+        });
+      }
+
+      this.lastEventTime.set(event.type, now);
+      this.recent.push(event);
+      kept.push(event);
+    }
+    return { events: kept, filtered, updated: [...updated.values()] };
+  }
+
+  /** Forget events after `time` (media seconds) */
+  seek(time: number): void {
+    for (const [type, last] of this.lastEventTime) {
+      if (last > time) this.lastEventTime.delete(type);
+    }
+    this.recent = this.recent.filter((event) => event.startTime <= time);
+  }
+
+  clear(): void {
+    this.lastEventTime.clear();
+    this.recent = [];
+  }
+}
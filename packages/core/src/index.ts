@@ -3,6 +3,16 @@ export {
   CommentAgentConfigSchema,
   type CommentGeneratorConfig,
   CommentGeneratorConfigSchema,
+  type CommentModelProvider,
+  type CommentModelProviderContext,
+  type CommentModelProviderFactory,
+  CommentModels,
+  type CommentProviderOptions,
+  CommentProviderOptionsSchema,
+  type GenerationContext,
+  generateComment,
+  listCommentModelProviders,
+  registerCommentModelProvider,
   writers,
 } from "./comment-gen/index.js";
 export type {
@@ -14,29 +24,196 @@ export {
   defaultCommentGeneratorConfig,
   defaultContextBufferConfig,
   defaultDecisionEngineConfig,
+  defaultDetectionCacheConfig,
+  defaultDetectionQueueConfig,
   defaultEventDetectorConfig,
+  defaultNoveltyFilterConfig,
+  defaultPreFilterConfig,
+  defaultResilienceConfig,
   defaultShortTurnAggregatorConfig,
+  defaultStalenessConfig,
   defaultUncommentedBufferConfig,
+  defaultUsageConfig,
 } from "./config.js";
 export {
   type DecisionEngineConfig,
   DecisionEngineConfigSchema,
+  type DecisionEngineState,
+  DecisionEngineStateSchema,
+  type EventFactor,
+  EventFactorSchema,
 } from "./decision-engine/index.js";
 export {
+  DetectionCache,
+  type DetectionCacheConfig,
+  DetectionCacheConfigSchema,
+  type DetectionCacheEntry,
+  type DetectionCacheStatistics,
+  type DetectionCacheStore,
+  detectionCacheKey,
+  MemoryDetectionCacheStore,
+} from "./detection-cache/index.js";
+export {
+  type BatchEventAnalysis,
+  type CustomEventType,
+  CustomEventTypeSchema,
+  chineseLexicon,
+  DETECTION_PROMPT_VERSION,
+  type DetectionFallback,
+  DetectionFallbackSchema,
+  type DetectionInput,
+  type DetectionProvider,
+  type DetectionProviderContext,
+  type DetectionProviderFactory,
+  type DetectionProviderOptions,
+  DetectionProviderOptionsSchema,
+  type DetectionQueueConfig,
+  DetectionQueueConfigSchema,
+  type DetectionQueueStatistics,
+  type DetectionQueueStrategy,
+  type DetectionRequest,
+  type DetectOptions,
+  type Detector,
+  defaultEventThreshold,
+  defaultHeuristicDetectorConfig,
+  type EventAnalysis,
   type EventDetectorConfig,
   EventDetectorConfigSchema,
+  type EventSpan,
+  type EventThreshold,
+  EventThresholdSchema,
+  englishLexicon,
+  type FilteredEvent,
+  type HeuristicDetectorConfig,
+  HeuristicDetectorConfigSchema,
+  HeuristicEventDetector,
+  type HeuristicLexicon,
+  HeuristicLexiconSchema,
+  type LegacyEventDetectorThresholds,
+  listDetectionProviders,
+  locateEvent,
+  mergeConsecutiveEvents,
+  mergeEvents,
+  migrateEventDetectorConfig,
+  type RepetitionSuppression,
+  RepetitionSuppressionSchema,
+  registerDetectionProvider,
 } from "./event-detector/index.js";
+export {
+  type Clock,
+  RealTimeClock,
+  realTimeClock,
+  type Scheduler,
+  type TimerHandle,
+  VirtualClock,
+} from "./lib/clock.js";
+export {
+  type EmbeddingProvider,
+  NoveltyFilter,
+  type NoveltyFilterConfig,
+  NoveltyFilterConfigSchema,
+  type NoveltyVerdict,
+  OpenAIEmbeddingProvider,
+  shingleSimilarity,
+} from "./novelty/index.js";
+export {
+  type CallGate,
+  type CallKind,
+  type CallLimits,
+  CallLimitsSchema,
+  type CallStats,
+  CommentSystemPool,
+  type CommentSystemPoolOptions,
+  defaultPoolLimits,
+  FairLimiter,
+  type PoolLimits,
+  PoolLimitsSchema,
+} from "./pool/index.js";
+export {
+  PreFilter,
+  type PreFilterConfig,
+  PreFilterConfigSchema,
+  type PreFilterStatistics,
+  type PreFilterVerdict,
+} from "./pre-filter/index.js";
+export {
+  REPLAY_TRACE_VERSION,
+  ReplayRunner,
+  type ReplayRunnerEvents,
+  type ReplayRunnerOptions,
+  type ReplayTrace,
+  type ReplayTraceEntry,
+} from "./replay/index.js";
+export {
+  CallTimeoutError,
+  CircuitOpenError,
+  type CircuitState,
+  isRetryableError,
+  type ResilienceConfig,
+  ResilienceConfigSchema,
+  type ResiliencePolicy,
+  ResiliencePolicySchema,
+  type ResilienceStage,
+  ResilientCaller,
+  type ResilientCallerEvents,
+  ResilientModel,
+} from "./resilience/index.js";
+export {
+  type CommentSystemSnapshot,
+  CommentSystemSnapshotSchema,
+  parseSnapshot,
+  SNAPSHOT_VERSION,
+} from "./snapshot/index.js";
+export {
+  getStaleReason,
+  type MediaClock,
+  type StalenessConfig,
+  StalenessConfigSchema,
+  type StalenessInput,
+} from "./staleness/index.js";
+export {
+  cuesToTurns,
+  mimicTurns,
+  type SubtitleCue,
+} from "./subtitle/index.js";
 export {
   CommentSystem,
   type CommentSystemEvents,
+  type CommentSystemOptions,
   createCommentSystem,
 } from "./system.js";
 export {
   type TextBufferConfig,
   TextBufferConfigSchema,
+  type TextBufferState,
+  TextBufferStateSchema,
 } from "./text-buffer/index.js";
 export {
   type ShortTurnAggregatorConfig,
   ShortTurnAggregatorConfigSchema,
 } from "./turn-agg/index.js";
-export type { Comment, Decision, Event, Turn } from "./type.js";
+export {
+  type BuiltInEventType,
+  builtInEventTypes,
+  type Comment,
+  type Decision,
+  type Event,
+  type EventType,
+  type Speaker,
+  type TriggerSpan,
+  type Turn,
+  type TurnSource,
+} from "./type.js";
+export {
+  defaultModelPrices,
+  type ModelPrice,
+  ModelPriceSchema,
+  type TokenUsage,
+  type UsageConfig,
+  UsageConfigSchema,
+  type UsageSource,
+  type UsageStage,
+  type UsageStatistics,
+  type UsageTotals,
+  UsageTracker,
+} from "./usage/index.js";
@@ -0,0 +1,130 @@
+import { delay } from "@std/async";
+
+export type TimerHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Source of "now" for staleness checks and latency measurement.
+ * Values are milliseconds; only differences between readings are meaningful.
+ */
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Source of timers for aggregation timeouts and suggested delays.
+ */
+export interface Scheduler {
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  /** Resolve after `ms`, reject with `signal.reason` when aborted first */
+  delay(ms: number, options?: { signal?: AbortSignal }): Promise<void>;
+}
+
+/**
+ * Real-time clock backed by `performance` and the global timers.
+ */
+export class RealTimeClock implements Clock, Scheduler {
+  now(): number {
+    // epoch-based like Date.now(), but monotonic with sub-millisecond precision
+    return performance.timeOrigin + performance.now();
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    return globalThis.setTimeout(callback, ms);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    globalThis.clearTimeout(handle as Parameters<typeof clearTimeout>[0]);
+  }
+
+  delay(ms: number, options?: { signal?: AbortSignal }): Promise<void> {
+    return delay(ms, options);
+  }
+}
+
+export const realTimeClock = new RealTimeClock();
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Manually driven clock: time only moves when `advanceTo`/`advanceBy` is called,
+ * and timers fire synchronously, in due order, while time is advanced.
+ */
+export class VirtualClock implements Clock, Scheduler {
+  private current: number;
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  constructor(startMs = 0) {
+    this.current = startMs;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      dueAt: this.current + Math.max(0, ms),
+      callback,
+    };
+    // keep sorted by due time; ties fire in scheduling order
+    const index = this.timers.findIndex((t) => t.dueAt > timer.dueAt);
+    if (index === -1) this.timers.push(timer);
+    else this.timers.splice(index, 0, timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter((t) => t.id !== handle);
+  }
+
+  delay(ms: number, { signal }: { signal?: AbortSignal } = {}): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        this.clearTimeout(handle);
+        reject(signal?.reason);
+      };
+      const handle = this.setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /** Due time of the earliest pending timer, if any */
+  nextTimerAt(): number | undefined {
+    return this.timers[0]?.dueAt;
+  }
+
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward to `target`, firing every timer due on the way,
+   * including timers scheduled by callbacks fired during this call.
+   */
+  advanceTo(target: number): void {
+    while (this.timers.length > 0 && this.timers[0].dueAt <= target) {
+      const timer = this.timers.shift()!;
+      this.current = Math.max(this.current, timer.dueAt);
+      timer.callback();
+    }
+    this.current = Math.max(this.current, target);
+  }
+
+  advanceBy(ms: number): void {
+    this.advanceTo(this.current + ms);
+  }
+}
@@ -0,0 +1,12 @@
+import type { Speaker } from "../type.js";
+
+/** Turns without a speaker are treated as one anonymous speaker */
+export function isSameSpeaker(a?: Speaker, b?: Speaker): boolean {
+  return a?.id === b?.id;
+}
+
+/** Label used in prompts and buffered context, e.g. `Alice (host)` */
+export function speakerLabel(speaker: Speaker): string {
+  const name = speaker.name || speaker.id;
+  return speaker.role ? `${name} (${speaker.role})` : name;
+}
@@ -0,0 +1,2 @@
+// Node-only parts of the library, kept out of the main entry so browser bundles never see node: imports
+export { JsonFileDetectionCacheStore } from "./detection-cache/file.js";
@@ -0,0 +1,66 @@
+import z from "zod/v4";
+
+export const NoveltyFilterConfigSchema = z.object({
+  enabled: z
+    .boolean()
+    .describe("Check generated comments against recent ones before emitting"),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe(
+      "Shingle similarity (0-1) at or above which a candidate counts as a duplicate",
+    ),
+  shingleSize: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Character n-gram size used for shingle similarity"),
+  windowSize: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Number of recent comments each candidate is compared against"),
+  embeddingThreshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe(
+      "Cosine similarity (0-1) at or above which a candidate counts as a duplicate, when an embedding provider is set",
+    ),
+  action: z
+    .enum(["reject", "regenerate"])
+    .describe(
+      "What to do with a duplicate: reject it, or regenerate once and reject if still a duplicate",
+    ),
+});
+
+export const defaultNoveltyFilterConfig: NoveltyFilterConfig = {
+  enabled: true,
+  threshold: 0.6,
+  shingleSize: 3,
+  windowSize: 10,
+  embeddingThreshold: 0.9,
+  action: "regenerate",
+};
+
+export type NoveltyFilterConfig = z.output<typeof NoveltyFilterConfigSchema>;
+
+/**
+ * Optional semantic similarity backend for the novelty filter.
+ */
+export interface EmbeddingProvider {
+  embed(
+    texts: string[],
+    options?: { signal?: AbortSignal },
+  ): Promise<number[][]>;
+}
+
+export interface NoveltyVerdict {
+  duplicate: boolean;
+  /** Highest similarity found against recent comments (0-1) */
+  similarity: number;
+  method: "shingle" | "embedding";
+  /** Id of the most similar recent comment */
+  matchedCommentId?: string;
+}
@@ -0,0 +1,31 @@
+import { OpenAI } from "openai";
+import type { EmbeddingProvider } from "./def.js";
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    private model = "text-embedding-3-small",
+    baseURL?: string,
+  ) {
+    this.client = new OpenAI({
+      apiKey,
+      baseURL,
+      dangerouslyAllowBrowser: true,
+    });
+  }
+
+  async embed(
+    texts: string[],
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<number[][]> {
+    const response = await this.client.embeddings.create(
+      { model: this.model, input: texts },
+      { signal },
+    );
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((d) => d.embedding);
+  }
+}
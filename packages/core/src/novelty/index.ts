@@ -0,0 +1,9 @@
+export {
+  defaultNoveltyFilterConfig,
+  type EmbeddingProvider,
+  type NoveltyFilterConfig,
+  NoveltyFilterConfigSchema,
+  type NoveltyVerdict,
+} from "./def.js";
+export { OpenAIEmbeddingProvider } from "./embeddings.js";
+export { NoveltyFilter, shingleSimilarity, shingles } from "./service.js";
@@ -0,0 +1,160 @@
+import { getLogger } from "@logtape/logtape";
+import type { Comment } from "../type.js";
+import type {
+  EmbeddingProvider,
+  NoveltyFilterConfig,
+  NoveltyVerdict,
+} from "./def.js";
+
+/**
+ * Character n-gram (shingle) set of `text`, ignoring case, punctuation and whitespace.
+ * Character shingles work the same for space-delimited and CJK text.
+ */
+export function shingles(text: string, size: number): Set<string> {
+  const normalized = text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}\s]+/gu, "");
+  const result = new Set<string>();
+  if (normalized.length <= size) {
+    if (normalized) result.add(normalized);
+    return result;
+  }
+  for (let i = 0; i + size <= normalized.length; i++) {
+    result.add(normalized.slice(i, i + size));
+  }
+  return result;
+}
+
+/** Dice coefficient of the shingle sets of `a` and `b` (0-1) */
+export function shingleSimilarity(a: string, b: string, size = 3): number {
+  const sa = shingles(a, size);
+  const sb = shingles(b, size);
+  if (sa.size === 0 || sb.size === 0) return 0;
+  let shared = 0;
+  for (const s of sa) if (sb.has(s)) shared++;
+  return (2 * shared) / (sa.size + sb.size);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class NoveltyFilter {
+  private embeddingCache = new Map<string, number[]>(); // comment id -> embedding
+  private logger = getLogger(["ai-reaction", "novelty-filter"]);
+
+  constructor(
+    private config: NoveltyFilterConfig,
+    private embeddings?: EmbeddingProvider,
+  ) {}
+
+  /**
+   * Compare a candidate against the most recent `windowSize` comments.
+   */
+  async check(
+    candidate: string,
+    previous: readonly Comment[],
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<NoveltyVerdict> {
+    const recent = previous.slice(-this.config.windowSize);
+    let verdict: NoveltyVerdict = {
+      duplicate: false,
+      similarity: 0,
+      method: "shingle",
+    };
+    if (!this.config.enabled || recent.length === 0) return verdict;
+
+    for (const comment of recent) {
+      const similarity = shingleSimilarity(
+        candidate,
+        comment.content,
+        this.config.shingleSize,
+      );
+      if (similarity > verdict.similarity) {
+        verdict = {
+          duplicate: similarity >= this.config.threshold,
+          similarity,
+          method: "shingle",
+          matchedCommentId: comment.id,
+        };
+      }
+    }
+
+    if (!verdict.duplicate && this.embeddings) {
+      try {
+        const embedded = await this.checkEmbeddings(candidate, recent, signal);
+        if (embedded.duplicate) verdict = embedded;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // Semantic check is best-effort; shingle verdict still stands
+        this.logger.warn("Embedding similarity failed: {message}", {
+          message: (error as Error)?.message,
+        });
+      }
+    }
+
+    this.logger.debug("Novelty check completed", () => ({
+      duplicate: verdict.duplicate,
+      similarity: parseFloat(verdict.similarity.toFixed(3)),
+      method: verdict.method,
+      matchedCommentId: verdict.matchedCommentId,
+      comparedAgainst: recent.length,
+    }));
+
+    return verdict;
+  }
+
+  private async checkEmbeddings(
+    candidate: string,
+    recent: readonly Comment[],
+    signal?: AbortSignal,
+  ): Promise<NoveltyVerdict> {
+    const missing = recent.filter((c) => !this.embeddingCache.has(c.id));
+    const vectors = await this.embeddings!.embed(
+      [candidate, ...missing.map((c) => c.content)],
+      { signal },
+    );
+    missing.forEach((c, i) => {
+      this.embeddingCache.set(c.id, vectors[i + 1]);
+    });
+    // Forget embeddings of comments that fell out of the window
+    const ids = new Set(recent.map((c) => c.id));
+    for (const id of this.embeddingCache.keys()) {
+      if (!ids.has(id)) this.embeddingCache.delete(id);
+    }
+
+    let best: NoveltyVerdict = {
+      duplicate: false,
+      similarity: 0,
+      method: "embedding",
+    };
+    for (const comment of recent) {
+      const similarity = cosineSimilarity(
+        vectors[0],
+        this.embeddingCache.get(comment.id)!,
+      );
+      if (similarity > best.similarity) {
+        best = {
+          duplicate: similarity >= this.config.embeddingThreshold,
+          similarity,
+          method: "embedding",
+          matchedCommentId: comment.id,
+        };
+      }
+    }
+    return best;
+  }
+
+  clear(): void {
+    this.embeddingCache.clear();
+  }
+}
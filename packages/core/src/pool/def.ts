@@ -0,0 +1,69 @@
+import z from "zod/v4";
+import type { ApiKeys, ConfigInput } from "../config.js";
+import type { Clock, Scheduler } from "../lib/clock.js";
+import type { EmbeddingProvider } from "../novelty/index.js";
+
+export const CallLimitsSchema = z.object({
+  maxConcurrent: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Max calls in flight across all sessions (0 = unlimited)"),
+  maxPerMinute: z
+    .number()
+    .int()
+    .min(0)
+    .describe(
+      "Max calls started per rolling minute across all sessions (0 = unlimited)",
+    ),
+});
+
+export const PoolLimitsSchema = z.object({
+  detection: CallLimitsSchema.describe("Limits for event detection calls"),
+  generation: CallLimitsSchema.describe(
+    "Limits for comment generation runs (selector and writers count as one run)",
+  ),
+});
+
+export const defaultPoolLimits: PoolLimits = {
+  detection: { maxConcurrent: 4, maxPerMinute: 120 },
+  generation: { maxConcurrent: 2, maxPerMinute: 60 },
+};
+
+export type CallLimits = z.output<typeof CallLimitsSchema>;
+export type PoolLimits = z.output<typeof PoolLimitsSchema>;
+
+export type CallKind = keyof PoolLimits;
+
+/**
+ * Admission control around a system's provider calls.
+ * `CommentSystemPool` hands each session one bound to the shared limits.
+ */
+export interface CallGate {
+  /** Aborting `signal` while the call waits for a slot rejects with its reason */
+  run<T>(
+    kind: CallKind,
+    task: () => Promise<T>,
+    options?: { signal?: AbortSignal },
+  ): Promise<T>;
+}
+
+export interface CallStats {
+  /** Calls currently running */
+  active: number;
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Calls finished, successfully or not */
+  completed: number;
+  /** Total time calls spent waiting for a slot (ms) */
+  totalWaitMs: number;
+}
+
+export interface CommentSystemPoolOptions {
+  apiKeys: ApiKeys;
+  /** Base config for every session; `create()` may override parts of it */
+  config?: ConfigInput;
+  clock?: Clock & Scheduler;
+  embeddingProvider?: EmbeddingProvider;
+  limits?: Partial<PoolLimits>;
+}
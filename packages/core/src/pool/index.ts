@@ -0,0 +1,13 @@
+export {
+  type CallGate,
+  type CallKind,
+  type CallLimits,
+  CallLimitsSchema,
+  type CallStats,
+  type CommentSystemPoolOptions,
+  defaultPoolLimits,
+  type PoolLimits,
+  PoolLimitsSchema,
+} from "./def.js";
+export { FairLimiter } from "./limiter.js";
+export { CommentSystemPool } from "./service.js";
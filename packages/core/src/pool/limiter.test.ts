@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VirtualClock } from "../lib/clock.js";
+import { FairLimiter } from "./limiter.js";
+
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/** Acquire a slot and record its label once granted */
+function track(
+  limiter: FairLimiter,
+  sessionId: string,
+  label: string,
+  granted: string[],
+  releases: Map<string, () => void>,
+): Promise<void> {
+  return limiter.acquire(sessionId).then((release) => {
+    granted.push(label);
+    releases.set(label, release);
+  });
+}
+
+describe("FairLimiter", () => {
+  it("hands free slots out round-robin across sessions", async () => {
+    const limiter = new FairLimiter(
+      { maxConcurrent: 1, maxPerMinute: 0 },
+      new VirtualClock(),
+    );
+    const granted: string[] = [];
+    const releases = new Map<string, () => void>();
+
+    track(limiter, "c", "c1", granted, releases);
+    for (const label of ["a1", "a2", "a3"]) {
+      track(limiter, "a", label, granted, releases);
+    }
+    track(limiter, "b", "b1", granted, releases);
+    await settle();
+    assert.deepEqual(granted, ["c1"]);
+    assert.equal(limiter.getStatistics().queued, 4);
+
+    for (let i = 0; i < 4; i++) {
+      releases.get(granted.at(-1)!)!();
+      await settle();
+    }
+    assert.deepEqual(granted, ["c1", "a1", "b1", "a2", "a3"]);
+    assert.equal(limiter.getSessionStatistics("a").completed, 2);
+  });
+
+  it("holds calls over maxPerMinute until the window frees up", async () => {
+    const clock = new VirtualClock();
+    const limiter = new FairLimiter(
+      { maxConcurrent: 0, maxPerMinute: 2 },
+      clock,
+    );
+    const granted: string[] = [];
+    const releases = new Map<string, () => void>();
+
+    track(limiter, "a", "a1", granted, releases);
+    clock.advanceBy(10_000);
+    track(limiter, "a", "a2", granted, releases);
+    track(limiter, "a", "a3", granted, releases);
+    await settle();
+    assert.deepEqual(granted, ["a1", "a2"]);
+
+    clock.advanceBy(49_999);
+    await settle();
+    assert.deepEqual(granted, ["a1", "a2"]);
+
+    clock.advanceBy(1);
+    await settle();
+    assert.deepEqual(granted, ["a1", "a2", "a3"]);
+    assert.equal(limiter.getSessionStatistics("a").totalWaitMs, 50_000);
+  });
+
+  it("rejects a cancelled session's waiters but keeps its stats until its calls settle", async () => {
+    const limiter = new FairLimiter(
+      { maxConcurrent: 1, maxPerMinute: 0 },
+      new VirtualClock(),
+    );
+    const granted: string[] = [];
+    const releases = new Map<string, () => void>();
+
+    track(limiter, "a", "a1", granted, releases);
+    const queued = track(limiter, "a", "a2", granted, releases);
+    await settle();
+
+    limiter.cancel("a", new Error("cancelled"));
+    await assert.rejects(queued, /cancelled/);
+    assert.equal(limiter.getStatistics().active, 1);
+    assert.equal(limiter.getStatistics().queued, 0);
+
+    releases.get("a1")!();
+    assert.equal(limiter.getStatistics().active, 0);
+    assert.equal(limiter.getStatistics().completed, 0);
+  });
+
+  it("gives up the place in line when the signal aborts", async () => {
+    const limiter = new FairLimiter(
+      { maxConcurrent: 1, maxPerMinute: 0 },
+      new VirtualClock(),
+    );
+    const granted: string[] = [];
+    const releases = new Map<string, () => void>();
+    const controller = new AbortController();
+
+    track(limiter, "a", "a1", granted, releases);
+    const aborted = limiter.acquire("b", controller.signal);
+    track(limiter, "c", "c1", granted, releases);
+    controller.abort(new Error("aborted"));
+    await assert.rejects(aborted, /aborted/);
+
+    releases.get("a1")!();
+    await settle();
+    assert.deepEqual(granted, ["a1", "c1"]);
+    assert.equal(limiter.getSessionStatistics("b").queued, 0);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  type Clock,
+  realTimeClock,
+  type Scheduler,
+  type TimerHandle,
+} from "../lib/clock.js";
+import type { CallLimits, CallStats } from "./def.js";
+
+const RATE_WINDOW_MS = 60_000;
+
+interface Waiter {
+  enqueuedAt: number;
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  cleanup?: () => void;
+}
+
+/**
+ * Concurrency and rate limiter shared by many sessions.
+ * Free slots are handed out round-robin across sessions,
+ * so one busy session cannot starve the others.
+ */
+export class FairLimiter {
+  private active = 0;
+  private starts: number[] = []; // start times within the rate window
+  private queues = new Map<string, Waiter[]>(); // insertion order is the round-robin order
+  private stats = new Map<string, CallStats>();
+  private cancelled = new Set<string>(); // Forget their stats once their calls settle
+  private retryHandle: TimerHandle | null = null;
+
+  constructor(
+    private limits: CallLimits,
+    private clock: Clock & Scheduler = realTimeClock,
+  ) {}
+
+  async run<T>(
+    sessionId: string,
+    task: () => Promise<T>,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const release = await this.acquire(sessionId, signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /** Wait for a slot; call the returned function to give it back */
+  acquire(sessionId: string, signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { enqueuedAt: this.clock.now(), resolve, reject };
+      if (signal) {
+        const onAbort = () => {
+          this.remove(sessionId, waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        waiter.cleanup = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.cancelled.delete(sessionId);
+      const queue = this.queues.get(sessionId);
+      if (queue) queue.push(waiter);
+      else this.queues.set(sessionId, [waiter]);
+      this.statsFor(sessionId).queued++;
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Reject everything `sessionId` has waiting and forget its statistics,
+   * once the calls it still has running have settled
+   */
+  cancel(sessionId: string, reason: unknown): void {
+    const queue = this.queues.get(sessionId) ?? [];
+    this.queues.delete(sessionId);
+    const stats = this.stats.get(sessionId);
+    if (stats) stats.queued -= queue.length;
+    if (stats?.active) this.cancelled.add(sessionId);
+    else this.stats.delete(sessionId);
+    for (const waiter of queue) {
+      waiter.cleanup?.();
+      waiter.reject(reason);
+    }
+  }
+
+  getSessionStatistics(sessionId: string): CallStats {
+    return { ...this.statsFor(sessionId) };
+  }
+
+  getStatistics(): CallStats & CallLimits {
+    const total: CallStats = {
+      active: 0,
+      queued: 0,
+      completed: 0,
+      totalWaitMs: 0,
+    };
+    for (const s of this.stats.values()) {
+      total.active += s.active;
+      total.queued += s.queued;
+      total.completed += s.completed;
+      total.totalWaitMs += s.totalWaitMs;
+    }
+    return { ...total, ...this.limits };
+  }
+
+  private dispatch(): void {
+    while (this.queues.size > 0) {
+      const { maxConcurrent, maxPerMinute } = this.limits;
+      if (maxConcurrent > 0 && this.active >= maxConcurrent) return;
+      if (maxPerMinute > 0) {
+        const now = this.clock.now();
+        this.starts = this.starts.filter((t) => now - t < RATE_WINDOW_MS);
+        if (this.starts.length >= maxPerMinute) {
+          this.scheduleRetry(this.starts[0] + RATE_WINDOW_MS - now);
+          return;
+        }
+      }
+
+      // Serve the session at the head, then move it to the back
+      const [sessionId, queue] = this.queues.entries().next().value!;
+      const waiter = queue.shift()!;
+      this.queues.delete(sessionId);
+      if (queue.length > 0) this.queues.set(sessionId, queue);
+      this.start(sessionId, waiter);
+    }
+  }
+
+  private start(sessionId: string, waiter: Waiter): void {
+    const now = this.clock.now();
+    const stats = this.statsFor(sessionId);
+    stats.queued--;
+    stats.active++;
+    stats.totalWaitMs += now - waiter.enqueuedAt;
+    this.active++;
+    this.starts.push(now);
+    waiter.cleanup?.();
+
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this.active--;
+      stats.active--;
+      stats.completed++;
+      // The session was cancelled while the call ran
+      if (this.cancelled.has(sessionId) && stats.active === 0) {
+        this.cancelled.delete(sessionId);
+        this.stats.delete(sessionId);
+      }
+      this.dispatch();
+    });
+  }
+
+  private remove(sessionId: string, waiter: Waiter): void {
+    const queue = this.queues.get(sessionId);
+    const index = queue?.indexOf(waiter) ?? -1;
+    if (!queue || index < 0) return;
+    queue.splice(index, 1);
+    if (queue.length === 0) this.queues.delete(sessionId);
+    this.statsFor(sessionId).queued--;
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (this.retryHandle) return;
+    this.retryHandle = this.clock.setTimeout(
+      () => {
+        this.retryHandle = null;
+        this.dispatch();
+      },
+      Math.max(0, delayMs),
+    );
+  }
+
+  private statsFor(sessionId: string): CallStats {
+    let stats = this.stats.get(sessionId);
+    if (!stats) {
+      stats = { active: 0, queued: 0, completed: 0, totalWaitMs: 0 };
+      this.stats.set(sessionId, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,192 @@
+import { getLogger } from "@logtape/logtape";
+import { CommentModels } from "../comment-gen/index.js";
+import type { ConfigInput } from "../config.js";
+import {
+  createDetectionProvider,
+  type DetectionProvider,
+  defaultEventDetectorConfig,
+} from "../event-detector/index.js";
+import { type Clock, realTimeClock, type Scheduler } from "../lib/clock.js";
+import { CommentSystem } from "../system.js";
+import {
+  type CallGate,
+  type CallKind,
+  type CommentSystemPoolOptions,
+  defaultPoolLimits,
+  type PoolLimits,
+} from "./def.js";
+import { FairLimiter } from "./limiter.js";
+
+function mergeConfig(base: ConfigInput, override: ConfigInput): ConfigInput {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = { ...base[key as keyof ConfigInput], ...value };
+  }
+  return merged as ConfigInput;
+}
+
+/**
+ * Creates, looks up and disposes `CommentSystem` sessions by id.
+ * Sessions share provider clients and one set of global call limits,
+ * so many concurrent streams stay within a single provider quota.
+ */
+export class CommentSystemPool implements Disposable {
+  private sessions = new Map<string, CommentSystem>();
+  private limiters: Record<CallKind, FairLimiter>;
+  private limits: PoolLimits;
+  private clock: Clock & Scheduler;
+  // Shared clients, keyed by the provider settings they were built from
+  private commentModels = new Map<string, CommentModels>();
+  private detectionProviders = new Map<string, DetectionProvider>();
+  private logger = getLogger(["ai-reaction", "comment-system-pool"]);
+
+  constructor(private options: CommentSystemPoolOptions) {
+    this.clock = options.clock ?? realTimeClock;
+    this.limits = {
+      detection: {
+        ...defaultPoolLimits.detection,
+        ...options.limits?.detection,
+      },
+      generation: {
+        ...defaultPoolLimits.generation,
+        ...options.limits?.generation,
+      },
+    };
+    this.limiters = {
+      detection: new FairLimiter(this.limits.detection, this.clock),
+      generation: new FairLimiter(this.limits.generation, this.clock),
+    };
+  }
+
+  /**
+   * Start a session; `config` is layered over the pool's base config.
+   */
+  create(id: string, config: ConfigInput = {}): CommentSystem {
+    if (this.sessions.has(id)) {
+      throw new Error(`Session "${id}" already exists`);
+    }
+    const sessionConfig = mergeConfig(this.options.config ?? {}, config);
+    const gate: CallGate = {
+      run: (kind, task, options) => this.limiters[kind].run(id, task, options),
+    };
+    const system = new CommentSystem({
+      config: sessionConfig,
+      apiKeys: this.options.apiKeys,
+      clock: this.clock,
+      embeddingProvider: this.options.embeddingProvider,
+      gate,
+      commentModels: this.getCommentModels(sessionConfig),
+      detectionProvider: this.getDetectionProvider(sessionConfig),
+    });
+    this.sessions.set(id, system);
+    this.logger.info("Session created", {
+      sessionId: id,
+      sessionCount: this.sessions.size,
+    });
+    return system;
+  }
+
+  get(id: string): CommentSystem | undefined {
+    return this.sessions.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  ids(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Dispose a session and drop its queued calls; returns false for unknown ids.
+   */
+  dispose(id: string): boolean {
+    const system = this.sessions.get(id);
+    if (!system) return false;
+    this.sessions.delete(id);
+    const reason = new Error(`Session "${id}" disposed`);
+    for (const limiter of Object.values(this.limiters)) {
+      limiter.cancel(id, reason);
+    }
+    system[Symbol.dispose]();
+    this.logger.info("Session disposed", {
+      sessionId: id,
+      sessionCount: this.sessions.size,
+    });
+    return true;
+  }
+
+  getStatistics() {
+    const sessions = Object.fromEntries(
+      [...this.sessions].map(([id, system]) => {
+        const { config: _config, ...stats } = system.getStatistics();
+        return [
+          id,
+          {
+            ...stats,
+            calls: {
+              detection: this.limiters.detection.getSessionStatistics(id),
+              generation: this.limiters.generation.getSessionStatistics(id),
+            },
+          },
+        ];
+      }),
+    );
+    return {
+      sessionCount: this.sessions.size,
+      commentCount: Object.values(sessions).reduce(
+        (sum, s) => sum + s.commentCount,
+        0,
+      ),
+      calls: {
+        detection: this.limiters.detection.getStatistics(),
+        generation: this.limiters.generation.getStatistics(),
+      },
+      sessions,
+    };
+  }
+
+  [Symbol.dispose](): void {
+    for (const id of this.ids()) this.dispose(id);
+    this.commentModels.clear();
+    this.detectionProviders.clear();
+  }
+
+  private getCommentModels(config: ConfigInput): CommentModels {
+    const providers = config.commentGenerator?.providers ?? {};
+    const key = JSON.stringify(providers);
+    let models = this.commentModels.get(key);
+    if (!models) {
+      models = new CommentModels(this.options.apiKeys, providers);
+      this.commentModels.set(key, models);
+    }
+    return models;
+  }
+
+  private getDetectionProvider(config: ConfigInput): DetectionProvider {
+    const detectorConfig = {
+      ...defaultEventDetectorConfig,
+      ...config.eventDetector,
+    };
+    const key = JSON.stringify([
+      detectorConfig.modelProvider,
+      detectorConfig.model,
+      detectorConfig.providerOptions,
+    ]);
+    let provider = this.detectionProviders.get(key);
+    if (!provider) {
+      provider = createDetectionProvider({
+        config: detectorConfig,
+        apiKeys: this.options.apiKeys,
+        clock: this.clock,
+      });
+      this.detectionProviders.set(key, provider);
+    }
+    return provider;
+  }
+}
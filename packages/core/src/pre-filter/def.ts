@@ -0,0 +1,94 @@
+import z from "zod/v4";
+
+export const PreFilterConfigSchema = z.object({
+  enabled: z
+    .boolean()
+    .describe("Score turns locally and skip detection on low-signal ones"),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("Turns scoring below this (0-1) are not sent to the detector"),
+  targetWords: z
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      "Content words at which a turn counts as long enough; a CJK character counts as half a word",
+    ),
+  noveltyWindow: z
+    .number()
+    .int()
+    .min(0)
+    .describe(
+      "Characters of preceding context the turn is compared against for novelty (0 disables)",
+    ),
+  useHeuristic: z
+    .boolean()
+    .describe("Let events found by the heuristic detector raise the score"),
+  fillerWords: z
+    .array(z.string())
+    .describe("Words that carry no content, such as uh-huh or 嗯"),
+  nonSpeechPattern: z
+    .string()
+    .describe(
+      "Regular expression matching non-speech tags such as [Music] or (laughs)",
+    ),
+});
+
+export const defaultPreFilterConfig: PreFilterConfig = {
+  enabled: false,
+  threshold: 0.25,
+  targetWords: 8,
+  noveltyWindow: 2000,
+  useHeuristic: true,
+  fillerWords: [
+    "uh",
+    "um",
+    "uh-huh",
+    "mm",
+    "mhm",
+    "hmm",
+    "ah",
+    "oh",
+    "yeah",
+    "yep",
+    "ok",
+    "okay",
+    "right",
+    "so",
+    "like",
+    "嗯",
+    "啊",
+    "呃",
+    "哦",
+    "噢",
+    "对",
+    "好",
+    "那个",
+    "就是",
+  ],
+  nonSpeechPattern: "\\[[^\\]]*\\]|\\([^)]*\\)|（[^）]*）|【[^】]*】|[♪♫]+",
+};
+
+export type PreFilterConfig = z.output<typeof PreFilterConfigSchema>;
+
+export interface PreFilterVerdict {
+  skip: boolean;
+  /** Combined score (0-1); detection runs at or above the threshold */
+  score: number;
+  /** Why the turn was skipped */
+  reason?: string;
+  /** Individual signals (0-1) the score was built from */
+  signals: {
+    words: number;
+    novelty: number;
+    punctuation: number;
+    heuristic: number;
+  };
+}
+
+export interface PreFilterStatistics {
+  checked: number;
+  skipped: number;
+}
@@ -0,0 +1,8 @@
+export {
+  defaultPreFilterConfig,
+  type PreFilterConfig,
+  PreFilterConfigSchema,
+  type PreFilterStatistics,
+  type PreFilterVerdict,
+} from "./def.js";
+export { PreFilter } from "./service.js";
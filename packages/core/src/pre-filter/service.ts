@@ -0,0 +1,124 @@
+import { getLogger } from "@logtape/logtape";
+import type { DetectionInput } from "../event-detector/def.js";
+import type { HeuristicEventDetector } from "../event-detector/heuristic.js";
+import { shingles } from "../novelty/index.js";
+import type {
+  PreFilterConfig,
+  PreFilterStatistics,
+  PreFilterVerdict,
+} from "./def.js";
+
+const SHINGLE_SIZE = 3;
+// CJK characters count individually, other scripts by whole word
+const TOKEN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+const CJK =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u;
+
+/**
+ * Scores a turn from local signals (length, novelty against the preceding
+ * context, punctuation, heuristic events) so low-signal turns such as
+ * "[Music]" or "uh-huh" can skip the model-backed detector.
+ */
+export class PreFilter {
+  private nonSpeech: RegExp;
+  private fillers: Set<string>;
+  private statistics: PreFilterStatistics = { checked: 0, skipped: 0 };
+  private logger = getLogger(["ai-reaction", "pre-filter"]);
+
+  constructor(
+    private config: PreFilterConfig,
+    private heuristic?: HeuristicEventDetector,
+  ) {
+    this.nonSpeech = new RegExp(config.nonSpeechPattern, "gu");
+    this.fillers = new Set(config.fillerWords.map((w) => w.toLowerCase()));
+  }
+
+  async check(
+    { turn, uncommentedText, fullContext }: DetectionInput,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<PreFilterVerdict> {
+    const signals = { words: 0, novelty: 0, punctuation: 0, heuristic: 0 };
+    if (!this.config.enabled) return { skip: false, score: 1, signals };
+    this.statistics.checked++;
+
+    const speech = turn.content.replace(this.nonSpeech, " ");
+    const tokens = speech.match(TOKEN) ?? [];
+    const contentWords = tokens
+      .filter((t) => !this.fillers.has(t.toLowerCase()))
+      .reduce((sum, t) => sum + (CJK.test(t) ? 0.5 : 1), 0);
+
+    let verdict: PreFilterVerdict;
+    if (tokens.length === 0) {
+      verdict = { skip: true, score: 0, reason: "non-speech only", signals };
+    } else if (contentWords === 0) {
+      verdict = { skip: true, score: 0, reason: "filler words only", signals };
+    } else {
+      signals.words = Math.min(1, contentWords / this.config.targetWords);
+      signals.novelty = this.novelty(
+        turn.content,
+        speech,
+        fullContext || uncommentedText,
+      );
+      signals.punctuation = /[?？!！]/u.test(speech) ? 1 : 0;
+      if (this.config.useHeuristic && this.heuristic) {
+        const events = await this.heuristic.detect(
+          { turn, uncommentedText, fullContext },
+          { signal },
+        );
+        signals.heuristic = Math.max(0, ...events.map((e) => e.confidence));
+      }
+
+      // Informativeness, discounted by up to half when the turn repeats recent context
+      const informativeness = this.config.useHeuristic
+        ? 0.6 * signals.words +
+          0.15 * signals.punctuation +
+          0.25 * signals.heuristic
+        : (0.6 * signals.words + 0.15 * signals.punctuation) / 0.75;
+      const score = informativeness * (0.5 + 0.5 * signals.novelty);
+      verdict =
+        score < this.config.threshold
+          ? {
+              skip: true,
+              score,
+              reason: `low signal: score ${score.toFixed(2)} < ${this.config.threshold}`,
+              signals,
+            }
+          : { skip: false, score, signals };
+    }
+
+    if (verdict.skip) this.statistics.skipped++;
+    this.logger.debug("Pre-filter verdict", () => ({
+      turnId: turn.id,
+      skip: verdict.skip,
+      score: parseFloat(verdict.score.toFixed(3)),
+      reason: verdict.reason,
+      signals,
+    }));
+    return verdict;
+  }
+
+  /** Share of the turn's shingles not found in the context just before it (0-1) */
+  private novelty(content: string, speech: string, context: string): number {
+    if (this.config.noveltyWindow === 0) return 1;
+    // The buffers already hold this turn; compare against what came before it
+    const end = context.lastIndexOf(content);
+    const before = context.slice(
+      0,
+      end === -1 ? Math.max(0, context.length - content.length) : end,
+    );
+    const recent = shingles(
+      before.slice(-this.config.noveltyWindow),
+      SHINGLE_SIZE,
+    );
+    const own = shingles(speech, SHINGLE_SIZE);
+    if (own.size === 0 || recent.size === 0) return 1;
+    let seen = 0;
+    for (const s of own) if (recent.has(s)) seen++;
+    return 1 - seen / own.size;
+  }
+
+  getStatistics(): PreFilterStatistics {
+    return { ...this.statistics };
+  }
+}
@@ -0,0 +1,70 @@
+import type { ApiKeys, Config, ConfigInput } from "../config.js";
+import type {
+  DetectionCacheStatistics,
+  DetectionCacheStore,
+} from "../detection-cache/index.js";
+import type { FilteredEvent } from "../event-detector/index.js";
+import type { CircuitState, ResilienceStage } from "../resilience/index.js";
+import type { Comment, Decision, Event, Turn } from "../type.js";
+import type { UsageStatistics } from "../usage/index.js";
+
+export const REPLAY_TRACE_VERSION = 1;
+
+export interface ReplayRunnerOptions {
+  turns: Turn[];
+  apiKeys: ApiKeys;
+  config?: ConfigInput;
+  /** Persist detection results across runs; used when `detectionCache.enabled` */
+  detectionCacheStore?: DetectionCacheStore;
+}
+
+interface ReplayTraceEntryBase {
+  /** Position on the virtual timeline (media seconds) when the emission happened */
+  mediaTime: number;
+  /** Wall-clock milliseconds since the replay started */
+  wallTimeMs: number;
+  /** Wall-clock milliseconds since the step (turn fed or timer fired) that led to this emission */
+  wallLatencyMs: number;
+}
+
+export type ReplayTraceEntry = ReplayTraceEntryBase &
+  (
+    | { type: "events-detected"; turn: Turn; events: Event[] }
+    | { type: "events-filtered"; turn: Turn; filtered: FilteredEvent[] }
+    | { type: "events-updated"; turn: Turn; events: Event[] }
+    | { type: "decision-made"; turn: Turn; decision: Decision }
+    | { type: "comment-generated"; turn: Turn; comment: Comment }
+    | { type: "comment-rejected"; turn: Turn; reason: string }
+    | { type: "turn-dropped"; turn: Turn; reason: string }
+    | { type: "detection-skipped"; turn: Turn; reason: string; score: number }
+    | { type: "comment-cancelled"; turn: Turn; reason: string }
+    | { type: "budget-exceeded"; reason: string; action: "downgrade" | "stop" }
+    | {
+        type: "circuit-state";
+        stage: ResilienceStage;
+        state: CircuitState;
+        previous: CircuitState;
+        /** Fallback detection provider, absent for the stage's own circuit */
+        fallback?: string;
+      }
+    | { type: "error"; error: { name: string; message: string } }
+  );
+
+export interface ReplayTrace {
+  version: typeof REPLAY_TRACE_VERSION;
+  /** ISO timestamp */
+  startedAt: string;
+  /** ISO timestamp */
+  finishedAt: string;
+  wallDurationMs: number;
+  mediaDurationSec: number;
+  turnCount: number;
+  /** Effective config of the run; API keys are never included */
+  config: Omit<Config, "apiKeys">;
+  entries: ReplayTraceEntry[];
+  summary: Record<ReplayTraceEntry["type"], number>;
+  /** Tokens and cost of the run */
+  usage: UsageStatistics;
+  /** Hits and misses of the detection cache, when enabled */
+  detectionCache?: DetectionCacheStatistics;
+}
@@ -0,0 +1,7 @@
+export {
+  REPLAY_TRACE_VERSION,
+  type ReplayRunnerOptions,
+  type ReplayTrace,
+  type ReplayTraceEntry,
+} from "./def.js";
+export { ReplayRunner, type ReplayRunnerEvents } from "./service.js";
@@ -0,0 +1,197 @@
+import { getLogger } from "@logtape/logtape";
+import { createNanoEvents } from "nanoevents";
+import { realTimeClock, VirtualClock } from "../lib/clock.js";
+import { CommentSystem } from "../system.js";
+import {
+  REPLAY_TRACE_VERSION,
+  type ReplayRunnerOptions,
+  type ReplayTrace,
+  type ReplayTraceEntry,
+} from "./def.js";
+
+export interface ReplayRunnerEvents {
+  entry: (entry: ReplayTraceEntry) => void;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * Drives a CommentSystem over a whole transcript on a virtual timeline.
+ *
+ * Virtual time stands still while detection/generation requests are in flight,
+ * so the pipeline sees the same timing it would in real-time playback
+ * without waiting for the media to play.
+ */
+export class ReplayRunner {
+  private clock = new VirtualClock(0);
+  private system: CommentSystem;
+  private entries: ReplayTraceEntry[] = [];
+  private wallStart = 0;
+  private stepStart = 0;
+  private emitter = createNanoEvents<ReplayRunnerEvents>();
+  private logger = getLogger(["ai-reaction", "replay-runner"]);
+
+  on<E extends keyof ReplayRunnerEvents>(
+    event: E,
+    listener: ReplayRunnerEvents[E],
+  ) {
+    return this.emitter.on(event, listener);
+  }
+
+  constructor(private options: ReplayRunnerOptions) {
+    this.system = new CommentSystem({
+      config: options.config,
+      apiKeys: options.apiKeys,
+      clock: this.clock,
+      detectionCacheStore: options.detectionCacheStore,
+    });
+
+    this.system.on("events-detected", (events, turn) =>
+      this.record({ type: "events-detected", turn, events }),
+    );
+    this.system.on("events-filtered", (filtered, turn) =>
+      this.record({ type: "events-filtered", turn, filtered }),
+    );
+    this.system.on("events-updated", (events, turn) =>
+      this.record({ type: "events-updated", turn, events }),
+    );
+    this.system.on("decision-made", (decision, turn) =>
+      this.record({ type: "decision-made", turn, decision }),
+    );
+    this.system.on("comment-generated", (comment, turn) =>
+      this.record({ type: "comment-generated", turn, comment }),
+    );
+    this.system.on("comment-rejected", (reason, turn) =>
+      this.record({ type: "comment-rejected", turn, reason }),
+    );
+    this.system.on("turn-dropped", (turn, reason) =>
+      this.record({ type: "turn-dropped", turn, reason }),
+    );
+    this.system.on("detection-skipped", (turn, reason, score) =>
+      this.record({ type: "detection-skipped", turn, reason, score }),
+    );
+    this.system.on("comment-cancelled", (turn, reason) =>
+      this.record({ type: "comment-cancelled", turn, reason }),
+    );
+    this.system.on("budget-exceeded", (reason, action) =>
+      this.record({ type: "budget-exceeded", reason, action }),
+    );
+    this.system.on("circuit-state", (stage, state, previous, fallback) =>
+      this.record({
+        type: "circuit-state",
+        stage,
+        state,
+        previous,
+        ...(fallback && { fallback }),
+      }),
+    );
+    this.system.on("error", (error) =>
+      this.record({
+        type: "error",
+        error: {
+          name: (error as Error)?.name ?? "Error",
+          message: (error as Error)?.message ?? String(error),
+        },
+      }),
+    );
+  }
+
+  async run(): Promise<ReplayTrace> {
+    const turns = [...this.options.turns].sort((a, b) => a.endTime - b.endTime);
+    const startedAt = new Date();
+    this.wallStart = realTimeClock.now();
+
+    this.logger.info("Replay started", {
+      turnCount: turns.length,
+      mediaDurationSec: turns.at(-1)?.endTime ?? 0,
+    });
+
+    try {
+      for (const turn of turns) {
+        await this.advanceTo(turn.endTime * 1000);
+        this.stepStart = realTimeClock.now();
+        this.system.onTurnCompleted(turn);
+        await this.system.settle();
+      }
+      // Let trailing aggregation timeouts and suggested delays play out
+      await this.advanceTo(Number.POSITIVE_INFINITY);
+    } finally {
+      this.system[Symbol.dispose]();
+    }
+
+    const stats = this.system.getStatistics();
+    const { apiKeys: _, ...config } = stats.config;
+    const summary: ReplayTrace["summary"] = {
+      "events-detected": 0,
+      "events-filtered": 0,
+      "events-updated": 0,
+      "decision-made": 0,
+      "comment-generated": 0,
+      "comment-rejected": 0,
+      "turn-dropped": 0,
+      "detection-skipped": 0,
+      "comment-cancelled": 0,
+      "budget-exceeded": 0,
+      "circuit-state": 0,
+      error: 0,
+    };
+    for (const entry of this.entries) summary[entry.type]++;
+
+    const trace: ReplayTrace = {
+      version: REPLAY_TRACE_VERSION,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      wallDurationMs: Math.round(realTimeClock.now() - this.wallStart),
+      mediaDurationSec: this.clock.now() / 1000,
+      turnCount: turns.length,
+      config,
+      entries: this.entries,
+      summary,
+      usage: stats.usage,
+      detectionCache: stats.detectionCache,
+    };
+
+    this.logger.info("Replay finished", {
+      wallDurationMs: trace.wallDurationMs,
+      mediaDurationSec: trace.mediaDurationSec,
+      summary,
+    });
+
+    return trace;
+  }
+
+  /** Fire due timers one at a time, waiting for the work each one starts */
+  private async advanceTo(targetMs: number): Promise<void> {
+    for (
+      let next = this.clock.nextTimerAt();
+      next !== undefined && next <= targetMs;
+      next = this.clock.nextTimerAt()
+    ) {
+      this.stepStart = realTimeClock.now();
+      this.clock.advanceTo(next);
+      await this.system.settle();
+    }
+    if (Number.isFinite(targetMs)) {
+      this.clock.advanceTo(targetMs);
+    }
+  }
+
+  private record(
+    entry: DistributiveOmit<
+      ReplayTraceEntry,
+      "mediaTime" | "wallTimeMs" | "wallLatencyMs"
+    >,
+  ): void {
+    const wallNow = realTimeClock.now();
+    const full = {
+      ...entry,
+      mediaTime: this.clock.now() / 1000,
+      wallTimeMs: Math.round(wallNow - this.wallStart),
+      wallLatencyMs: Math.round(wallNow - this.stepStart),
+    } as ReplayTraceEntry;
+    this.entries.push(full);
+    this.emitter.emit("entry", full);
+  }
+}
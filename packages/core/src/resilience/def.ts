@@ -0,0 +1,74 @@
+import z from "zod/v4";
+
+export const ResiliencePolicySchema = z.object({
+  timeoutMs: z
+    .number()
+    .min(0)
+    .describe("Abort a call that takes longer than this (ms, 0 disables)"),
+  maxRetries: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Retries after a retryable failure (429, 5xx, network, timeout)"),
+  baseDelayMs: z
+    .number()
+    .min(0)
+    .describe("Backoff before the first retry; doubles with each retry (ms)"),
+  maxDelayMs: z.number().min(0).describe("Upper bound for the backoff (ms)"),
+  jitter: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe("Random fraction taken off each backoff, to spread retries"),
+  failureThreshold: z
+    .number()
+    .int()
+    .min(0)
+    .describe(
+      "Consecutive retryable failures that open the circuit breaker (0 disables it)",
+    ),
+  resetTimeoutMs: z
+    .number()
+    .min(0)
+    .describe("How long the circuit stays open before a trial call (ms)"),
+});
+
+export const ResilienceConfigSchema = z.object({
+  detection: ResiliencePolicySchema.describe(
+    "Policy for event detection calls",
+  ),
+  generation: ResiliencePolicySchema.describe(
+    "Policy for each selector and writer model call",
+  ),
+});
+
+export const defaultResilienceConfig: ResilienceConfig = {
+  detection: {
+    timeoutMs: 15000,
+    maxRetries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 4000,
+    jitter: 0.5,
+    failureThreshold: 5,
+    resetTimeoutMs: 30000,
+  },
+  generation: {
+    timeoutMs: 30000,
+    maxRetries: 1,
+    baseDelayMs: 1000,
+    maxDelayMs: 4000,
+    jitter: 0.5,
+    failureThreshold: 5,
+    resetTimeoutMs: 30000,
+  },
+};
+
+export type ResiliencePolicy = z.output<typeof ResiliencePolicySchema>;
+export type ResilienceConfig = z.output<typeof ResilienceConfigSchema>;
+export type ResilienceStage = keyof ResilienceConfig;
+
+/**
+ * closed: calls go through; open: calls fail fast;
+ * half-open: one trial call decides whether to close or open again
+ */
+export type CircuitState = "closed" | "open" | "half-open";
@@ -0,0 +1,17 @@
+export {
+  type CircuitState,
+  defaultResilienceConfig,
+  type ResilienceConfig,
+  ResilienceConfigSchema,
+  type ResiliencePolicy,
+  ResiliencePolicySchema,
+  type ResilienceStage,
+} from "./def.js";
+export { ResilientModel } from "./model.js";
+export {
+  CallTimeoutError,
+  CircuitOpenError,
+  isRetryableError,
+  ResilientCaller,
+  type ResilientCallerEvents,
+} from "./service.js";
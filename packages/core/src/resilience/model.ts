@@ -0,0 +1,60 @@
+import type {
+  Model,
+  ModelRequest,
+  ModelResponse,
+  StreamEvent,
+} from "@openai/agents";
+import type { ResilientCaller } from "./service.js";
+
+/**
+ * Agent model whose requests run through a `ResilientCaller`.
+ * Streamed requests are only retried (and timed out) until the first event arrives;
+ * once output has been yielded it cannot be taken back.
+ */
+export class ResilientModel implements Model {
+  constructor(
+    private model: Model,
+    private caller: ResilientCaller,
+  ) {}
+
+  getResponse(request: ModelRequest): Promise<ModelResponse> {
+    return this.caller.run(
+      (signal) => this.model.getResponse({ ...request, signal }),
+      { signal: request.signal },
+    );
+  }
+
+  async *getStreamedResponse(
+    request: ModelRequest,
+  ): AsyncIterable<StreamEvent> {
+    const { iterator, first } = await this.caller.run(
+      async (signal) => {
+        // The timeout only covers the wait for the first event, the caller's signal the whole stream
+        const iterator = this.model
+          .getStreamedResponse({
+            ...request,
+            signal: request.signal
+              ? AbortSignal.any([request.signal, signal])
+              : signal,
+          })
+          [Symbol.asyncIterator]();
+        try {
+          return { iterator, first: await iterator.next() };
+        } catch (error) {
+          await iterator.return?.();
+          throw error;
+        }
+      },
+      { signal: request.signal },
+    );
+    if (first.done) return;
+    yield first.value;
+    for (
+      let next = await iterator.next();
+      !next.done;
+      next = await iterator.next()
+    ) {
+      yield next.value;
+    }
+  }
+}
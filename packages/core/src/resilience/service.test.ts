@@ -0,0 +1,173 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VirtualClock } from "../lib/clock.js";
+import type { CircuitState, ResiliencePolicy } from "./def.js";
+import {
+  CallTimeoutError,
+  CircuitOpenError,
+  ResilientCaller,
+} from "./service.js";
+
+const policy: ResiliencePolicy = {
+  timeoutMs: 1000,
+  maxRetries: 2,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  jitter: 0,
+  failureThreshold: 3,
+  resetTimeoutMs: 5000,
+};
+
+const serverError = () =>
+  Object.assign(new Error("overloaded"), { status: 503 });
+
+/** A caller whose retry backoffs pass instantly on the virtual clock */
+function createCaller(overrides: Partial<ResiliencePolicy> = {}) {
+  const clock = new VirtualClock();
+  const caller = new ResilientCaller(
+    "detection",
+    { ...policy, ...overrides },
+    clock,
+  );
+  const retries: [number, number][] = [];
+  caller.on("retry", (attempt, delayMs) => {
+    retries.push([attempt, delayMs]);
+    queueMicrotask(() => clock.advanceBy(delayMs));
+  });
+  const states: CircuitState[] = [];
+  caller.on("state-change", (state) => states.push(state));
+  return { clock, caller, retries, states };
+}
+
+describe("ResilientCaller", () => {
+  it("retries retryable failures with exponential backoff", async () => {
+    const { caller, retries } = createCaller();
+    let calls = 0;
+
+    const result = await caller.run(async () => {
+      if (++calls < 3) throw serverError();
+      return "ok";
+    });
+
+    assert.equal(result, "ok");
+    assert.deepEqual(retries, [
+      [1, 100],
+      [2, 200],
+    ]);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { caller } = createCaller();
+    let calls = 0;
+
+    await assert.rejects(
+      caller.run(async () => {
+        calls++;
+        throw serverError();
+      }),
+      /overloaded/,
+    );
+    assert.equal(calls, 3);
+  });
+
+  it("does not retry a client error", async () => {
+    const { caller, retries } = createCaller({ failureThreshold: 1 });
+    let calls = 0;
+
+    await assert.rejects(
+      caller.run(async () => {
+        calls++;
+        throw Object.assign(new Error("bad request"), { status: 400 });
+      }),
+      /bad request/,
+    );
+    assert.equal(calls, 1);
+    assert.equal(retries.length, 0);
+    assert.equal(caller.getState(), "closed");
+  });
+
+  it("times out a call that does not settle", async () => {
+    const { clock, caller } = createCaller({ maxRetries: 0 });
+
+    const result = caller.run(() => new Promise<never>(() => {}));
+    clock.advanceBy(1000);
+
+    await assert.rejects(result, CallTimeoutError);
+  });
+
+  it("opens the circuit after consecutive failures and fails fast", async () => {
+    const { caller, states } = createCaller({ maxRetries: 0 });
+    const failing = async () => {
+      throw serverError();
+    };
+
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(caller.run(failing), /overloaded/);
+    }
+    assert.deepEqual(states, ["open"]);
+
+    let called = false;
+    await assert.rejects(
+      caller.run(async () => {
+        called = true;
+      }),
+      CircuitOpenError,
+    );
+    assert.equal(called, false);
+  });
+
+  it("closes again after a successful trial call", async () => {
+    const { clock, caller, states } = createCaller({
+      maxRetries: 0,
+      failureThreshold: 1,
+    });
+
+    await assert.rejects(
+      caller.run(async () => {
+        throw serverError();
+      }),
+    );
+    clock.advanceBy(5000);
+
+    assert.equal(await caller.run(async () => "ok"), "ok");
+    assert.deepEqual(states, ["open", "half-open", "closed"]);
+  });
+
+  it("reopens when the trial call fails", async () => {
+    const { clock, caller, states } = createCaller({
+      maxRetries: 0,
+      failureThreshold: 1,
+    });
+    const failing = async () => {
+      throw serverError();
+    };
+
+    await assert.rejects(caller.run(failing));
+    clock.advanceBy(5000);
+    await assert.rejects(caller.run(failing), /overloaded/);
+
+    assert.deepEqual(states, ["open", "half-open", "open"]);
+    await assert.rejects(caller.run(failing), CircuitOpenError);
+  });
+
+  it("re-emits fork events with the fork name", async () => {
+    const { caller } = createCaller({ maxRetries: 0, failureThreshold: 1 });
+    const forkStates: [CircuitState, string | undefined][] = [];
+    caller.on("state-change", (state, _previous, fork) =>
+      forkStates.push([state, fork]),
+    );
+    const fork = caller.fork("openai/gpt-4.1-mini");
+
+    await assert.rejects(
+      fork.run(async () => {
+        throw serverError();
+      }),
+    );
+
+    assert.deepEqual(forkStates, [["open", "openai/gpt-4.1-mini"]]);
+    assert.equal(caller.getState(), "closed");
+    assert.deepEqual(caller.getForkStates(), {
+      "openai/gpt-4.1-mini": "open",
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { getLogger } from "@logtape/logtape";
+import { createNanoEvents } from "nanoevents";
+import {
+  type Clock,
+  realTimeClock,
+  type Scheduler,
+  type TimerHandle,
+} from "../lib/clock.js";
+import type { CircuitState, ResiliencePolicy, ResilienceStage } from "./def.js";
+
+/** A call took longer than the policy's `timeoutMs` */
+export class CallTimeoutError extends Error {
+  override name = "CallTimeoutError";
+}
+
+/** A call was refused because the circuit breaker is open */
+export class CircuitOpenError extends Error {
+  override name = "CircuitOpenError";
+}
+
+/** 429, 5xx, network failures and timeouts are worth retrying */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CallTimeoutError) return true;
+  const e = error as {
+    status?: number;
+    code?: string;
+    name?: string;
+    cause?: unknown;
+  } | null;
+  if (!e || typeof e !== "object") return false;
+  if (typeof e.status === "number") {
+    return e.status === 408 || e.status === 429 || e.status >= 500;
+  }
+  if (e.name === "APIConnectionError" || e.name === "APIConnectionTimeoutError")
+    return true;
+  if (
+    e.code &&
+    ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"].includes(
+      e.code,
+    )
+  )
+    return true;
+  // fetch() reports network failures as a TypeError
+  return e.name === "TypeError" && e.cause !== undefined;
+}
+
+/** `fork` names the forked caller the event comes from, absent for this caller */
+export interface ResilientCallerEvents {
+  "state-change": (
+    state: CircuitState,
+    previous: CircuitState,
+    fork?: string,
+  ) => void;
+  retry: (
+    attempt: number,
+    delayMs: number,
+    error: unknown,
+    fork?: string,
+  ) => void;
+}
+
+/**
+ * Runs provider calls of one stage with a timeout, retries with
+ * exponential backoff and jitter, and a circuit breaker.
+ */
+export class ResilientCaller {
+  private state: CircuitState = "closed";
+  private failures = 0; // Consecutive retryable failures
+  private openedAt = 0;
+  private trialInFlight = false;
+  private forks = new Map<string, ResilientCaller>();
+  private emitter = createNanoEvents<ResilientCallerEvents>();
+  private logger = getLogger(["ai-reaction", "resilience"]);
+
+  constructor(
+    readonly stage: ResilienceStage,
+    private policy: ResiliencePolicy,
+    private clock: Clock & Scheduler = realTimeClock,
+  ) {}
+
+  on<E extends keyof ResilientCallerEvents>(
+    event: E,
+    listener: ResilientCallerEvents[E],
+  ) {
+    return this.emitter.on(event, listener);
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * A caller with the same policy and its own circuit, e.g. for a fallback provider.
+   * Its events are re-emitted by this caller with `name` as the last argument.
+   */
+  fork(name: string): ResilientCaller {
+    const fork = new ResilientCaller(this.stage, this.policy, this.clock);
+    fork.on("state-change", (state, previous) =>
+      this.emitter.emit("state-change", state, previous, name),
+    );
+    fork.on("retry", (attempt, delayMs, error) =>
+      this.emitter.emit("retry", attempt, delayMs, error, name),
+    );
+    this.forks.set(name, fork);
+    return fork;
+  }
+
+  /** Circuit state of each fork, by name */
+  getForkStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      [...this.forks].map(([name, fork]) => [name, fork.getState()]),
+    );
+  }
+
+  /**
+   * Run `task`, passing it a signal that aborts on timeout or when `signal` aborts.
+   * Aborting `signal` stops retrying and rejects with its reason.
+   */
+  async run<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      this.admit();
+      try {
+        const result = await this.attempt(task, signal);
+        this.onSuccess();
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          this.trialInFlight = false;
+          throw error;
+        }
+        if (!isRetryableError(error)) {
+          // The provider answered (4xx, refusal, bad output), so it is reachable
+          this.trialInFlight = false;
+          throw error;
+        }
+        this.onFailure(error);
+        if (attempt >= this.policy.maxRetries || this.state === "open") {
+          throw error;
+        }
+        const backoff = Math.min(
+          this.policy.maxDelayMs,
+          this.policy.baseDelayMs * 2 ** attempt,
+        );
+        const delayMs = Math.round(
+          backoff * (1 - this.policy.jitter * Math.random()),
+        );
+        this.logger.info("Retrying {stage} call in {delayMs}ms", {
+          stage: this.stage,
+          attempt: attempt + 1,
+          delayMs,
+          message: (error as Error)?.message,
+        });
+        this.emitter.emit("retry", attempt + 1, delayMs, error);
+        await this.clock.delay(delayMs, { signal });
+      }
+    }
+  }
+
+  /** Throw if the breaker refuses calls; move to half-open once the reset timeout passed */
+  private admit(): void {
+    if (this.state === "closed") return;
+    if (
+      this.state === "open" &&
+      this.clock.now() - this.openedAt >= this.policy.resetTimeoutMs
+    ) {
+      this.setState("half-open");
+    }
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(
+      `${this.stage} circuit is ${this.state} after ${this.failures} consecutive failures`,
+    );
+  }
+
+  private async attempt<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let timer: TimerHandle | undefined;
+    const { timeoutMs } = this.policy;
+    try {
+      // Race so a task that ignores its signal still cannot hang the caller
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener(
+          "abort",
+          () => reject(controller.signal.reason),
+          { once: true },
+        );
+      });
+      if (timeoutMs > 0) {
+        timer = this.clock.setTimeout(
+          () =>
+            controller.abort(
+              new CallTimeoutError(
+                `${this.stage} call timed out after ${timeoutMs}ms`,
+              ),
+            ),
+          timeoutMs,
+        );
+      }
+      return await Promise.race([task(controller.signal), aborted]);
+    } finally {
+      if (timer !== undefined) this.clock.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  private onSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    if (this.state !== "closed") this.setState("closed");
+  }
+
+  private onFailure(error: unknown): void {
+    this.failures++;
+    this.trialInFlight = false;
+    const { failureThreshold } = this.policy;
+    if (failureThreshold === 0) return;
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" && this.failures >= failureThreshold)
+    ) {
+      this.openedAt = this.clock.now();
+      this.logger.warn("{stage} circuit opened: {message}", {
+        stage: this.stage,
+        failures: this.failures,
+        message: (error as Error)?.message,
+      });
+      this.setState("open");
+    }
+  }
+
+  private setState(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.logger.info("{stage} circuit {previous} -> {state}", {
+      stage: this.stage,
+      previous,
+      state,
+    });
+    this.emitter.emit("state-change", state, previous);
+  }
+}
@@ -0,0 +1,29 @@
+import z from "zod/v4";
+import { DecisionEngineStateSchema } from "../decision-engine/def.js";
+import { TextBufferStateSchema } from "../text-buffer/def.js";
+import { commentSchema, speakerSchema, turnSchema } from "../type.js";
+
+export const SNAPSHOT_VERSION = 2;
+
+/**
+ * Resumable state of a `CommentSystem`. Config and in-flight requests are not included.
+ */
+export const CommentSystemSnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  savedAt: z.number().describe("Clock time (ms) when the snapshot was taken"),
+  contextBuffer: TextBufferStateSchema,
+  uncommentedBuffer: TextBufferStateSchema,
+  decisionEngine: DecisionEngineStateSchema,
+  pendingTurn: turnSchema
+    .nullable()
+    .describe("Short turns buffered by the aggregator, not yet detected"),
+  pausedPendingTurn: turnSchema
+    .nullable()
+    .describe("Aggregator content held while playback was paused"),
+  comments: z.array(commentSchema).describe("Session comment log"),
+  lastSpeaker: speakerSchema.optional(),
+});
+
+export type CommentSystemSnapshot = z.output<
+  typeof CommentSystemSnapshotSchema
+>;
@@ -0,0 +1,6 @@
+export {
+  type CommentSystemSnapshot,
+  CommentSystemSnapshotSchema,
+  SNAPSHOT_VERSION,
+} from "./def.js";
+export { parseSnapshot } from "./service.js";
@@ -0,0 +1,39 @@
+import z from "zod/v4";
+import {
+  type CommentSystemSnapshot,
+  CommentSystemSnapshotSchema,
+  SNAPSHOT_VERSION,
+} from "./def.js";
+
+type RawSnapshot = { version: number } & Record<string, unknown>;
+
+/**
+ * `migrations[n]` upgrades a version `n` snapshot to version `n + 1`.
+ * Bump `SNAPSHOT_VERSION` and add an entry whenever the snapshot shape changes.
+ */
+const migrations: Record<number, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // v2 keeps the aggregator content held while paused
+  1: (snapshot) => ({ ...snapshot, version: 2, pausedPendingTurn: null }),
+};
+
+const VersionedSchema = z.looseObject({ version: z.number().int().min(1) });
+
+/**
+ * Validate a stored snapshot, migrating older versions to the current one.
+ */
+export function parseSnapshot(input: unknown): CommentSystemSnapshot {
+  let snapshot: RawSnapshot = VersionedSchema.parse(input);
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${snapshot.version} is newer than supported version ${SNAPSHOT_VERSION}`,
+    );
+  }
+  while (snapshot.version < SNAPSHOT_VERSION) {
+    const migrate = migrations[snapshot.version];
+    if (!migrate) {
+      throw new Error(`No migration from snapshot version ${snapshot.version}`);
+    }
+    snapshot = migrate(snapshot);
+  }
+  return CommentSystemSnapshotSchema.parse(snapshot);
+}
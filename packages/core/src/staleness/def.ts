@@ -0,0 +1,28 @@
+import z from "zod/v4";
+
+export const StalenessConfigSchema = z.object({
+  maxWallMs: z
+    .number()
+    .min(0)
+    .describe(
+      "Drop a turn queued for longer than this much wall-clock time (ms, 0 disables)",
+    ),
+  maxMediaLagSec: z
+    .number()
+    .min(0)
+    .describe(
+      "Drop a turn once playback is this far past its end (media seconds, 0 disables)",
+    ),
+});
+
+export const defaultStalenessConfig: StalenessConfig = {
+  maxWallMs: 5000,
+  maxMediaLagSec: 10,
+};
+
+export type StalenessConfig = z.output<typeof StalenessConfigSchema>;
+
+/** Current media position in seconds, e.g. the player's `currentTime` */
+export interface MediaClock {
+  currentTime(): number;
+}
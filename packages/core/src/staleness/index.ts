@@ -0,0 +1,7 @@
+export {
+  defaultStalenessConfig,
+  type MediaClock,
+  type StalenessConfig,
+  StalenessConfigSchema,
+} from "./def.js";
+export { getStaleReason, type StalenessInput } from "./service.js";
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VirtualClock } from "../lib/clock.js";
+import type { Turn } from "../type.js";
+import type { StalenessConfig } from "./def.js";
+import { getStaleReason } from "./service.js";
+
+const config: StalenessConfig = { maxWallMs: 5000, maxMediaLagSec: 10 };
+
+const turn: Turn = { id: "a", content: "hello", startTime: 20, endTime: 22 };
+
+describe("getStaleReason", () => {
+  it("drops a turn queued longer than maxWallMs", () => {
+    const clock = new VirtualClock(1000);
+    const enqueuedAtMs = clock.now();
+
+    clock.advanceBy(5000);
+    assert.equal(
+      getStaleReason(config, { turn, enqueuedAtMs, nowMs: clock.now() }),
+      null,
+    );
+
+    clock.advanceBy(1);
+    assert.equal(
+      getStaleReason(config, { turn, enqueuedAtMs, nowMs: clock.now() }),
+      "stale: queued for 5001ms (max 5000ms)",
+    );
+  });
+
+  it("drops a turn once playback is too far past its end", () => {
+    const clock = new VirtualClock();
+    const input = { turn, enqueuedAtMs: clock.now(), nowMs: clock.now() };
+
+    assert.equal(getStaleReason(config, { ...input, mediaTime: 32 }), null);
+    assert.equal(
+      getStaleReason(config, { ...input, mediaTime: 32.5 }),
+      "stale: playback is 10.5s past the turn (max 10s)",
+    );
+    // without a media position only the wall-clock limit applies
+    assert.equal(getStaleReason(config, input), null);
+  });
+
+  it("ignores a limit set to 0", () => {
+    const clock = new VirtualClock();
+    const enqueuedAtMs = clock.now();
+    clock.advanceBy(60_000);
+
+    assert.equal(
+      getStaleReason(
+        { maxWallMs: 0, maxMediaLagSec: 0 },
+        { turn, enqueuedAtMs, nowMs: clock.now(), mediaTime: 1000 },
+      ),
+      null,
+    );
+  });
+});
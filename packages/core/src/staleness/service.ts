@@ -0,0 +1,33 @@
+import type { Turn } from "../type.js";
+import type { StalenessConfig } from "./def.js";
+
+export interface StalenessInput {
+  turn: Turn;
+  /** Clock time (ms) the turn was queued */
+  enqueuedAtMs: number;
+  /** Clock time (ms) now */
+  nowMs: number;
+  /** Current media position (seconds), when known */
+  mediaTime?: number;
+}
+
+/**
+ * Returns why a queued turn is too old to comment on, or null if it is still fresh.
+ * Either limit being exceeded is enough.
+ */
+export function getStaleReason(
+  config: StalenessConfig,
+  { turn, enqueuedAtMs, nowMs, mediaTime }: StalenessInput,
+): string | null {
+  const waitedMs = nowMs - enqueuedAtMs;
+  if (config.maxWallMs > 0 && waitedMs > config.maxWallMs) {
+    return `stale: queued for ${Math.round(waitedMs)}ms (max ${config.maxWallMs}ms)`;
+  }
+  if (config.maxMediaLagSec > 0 && mediaTime !== undefined) {
+    const lagSec = mediaTime - turn.endTime;
+    if (lagSec > config.maxMediaLagSec) {
+      return `stale: playback is ${lagSec.toFixed(1)}s past the turn (max ${config.maxMediaLagSec}s)`;
+    }
+  }
+  return null;
+}
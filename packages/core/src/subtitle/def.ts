@@ -0,0 +1,10 @@
+/** A parsed subtitle cue, as produced by caption parsers such as media-captions */
+export interface SubtitleCue {
+  id: string;
+  /** Seconds */
+  startTime: number;
+  /** Seconds */
+  endTime: number;
+  /** Cue text, possibly with WebVTT voice spans such as `<v Bob>` */
+  text: string;
+}
@@ -0,0 +1,2 @@
+export type { SubtitleCue } from "./def.js";
+export { cuesToTurns, mimicTurns } from "./service.js";
@@ -0,0 +1,53 @@
+import type { Turn } from "../type.js";
+import type { SubtitleCue } from "./def.js";
+
+// WebVTT voice span, e.g. `<v Bob>` or `<v.loud Esme Tanaka>`
+const VOICE_TAG = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+
+/** Turn subtitle cues into turns, taking speakers from WebVTT voice spans */
+export function cuesToTurns(cues: SubtitleCue[]): Turn[] {
+  return cues.map((c) => {
+    const speaker = c.text.match(VOICE_TAG)?.[1].trim();
+    return {
+      id: c.id,
+      startTime: c.startTime,
+      endTime: c.endTime,
+      content: speaker
+        ? c.text.replace(/<\/?v(?:[.\s][^>]*)?>/g, "").trim()
+        : c.text,
+      speaker: speaker ? { id: speaker, name: speaker } : undefined,
+    };
+  });
+}
+
+/** Fake turn timings for plain text, one turn per non-empty line */
+export function mimicTurns(text: string): Turn[] {
+  const lines = text
+    .split("\n")
+    .map((v) => v.trim())
+    .filter((v) => !!v);
+
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+  const perWordMs = 300;
+  const gapMs = 500;
+
+  let currentMs = 0;
+
+  return lines.map((line, index) => {
+    const segments = Array.from(segmenter.segment(line));
+    const wordCount =
+      segments.reduce((count, seg) => count + (seg.isWordLike ? 1 : 0), 0) || 1;
+
+    const durationMs = wordCount * perWordMs;
+    const startMs = currentMs;
+    const endMs = startMs + durationMs;
+    currentMs = endMs + gapMs;
+
+    return {
+      id: String(index + 1),
+      startTime: startMs / 1000,
+      endTime: endMs / 1000,
+      content: line,
+    };
+  });
+}
@@ -1,9 +1,11 @@
 import { getLogger } from "@logtape/logtape";
-import { delay } from "@std/async";
 import { createNanoEvents } from "nanoevents";
 import { nanoid } from "nanoid";
-import OpenAI from "openai";
-import { generateComment } from "./comment-gen/index.js";
+import {
+  CommentModels,
+  type GenerationContext,
+  generateComment,
+} from "./comment-gen/index.js";
 import {
   type ApiKeys,
   type Config,
@@ -11,19 +13,59 @@ import {
   defaultCommentGeneratorConfig,
   defaultContextBufferConfig,
   defaultDecisionEngineConfig,
+  defaultDetectionCacheConfig,
+  defaultDetectionQueueConfig,
   defaultEventDetectorConfig,
+  defaultNoveltyFilterConfig,
+  defaultPreFilterConfig,
+  defaultResilienceConfig,
   defaultShortTurnAggregatorConfig,
+  defaultStalenessConfig,
   defaultUncommentedBufferConfig,
+  defaultUsageConfig,
 } from "./config.js";
 import { DecisionEngine } from "./decision-engine/index.js";
+import {
+  DetectionCache,
+  type DetectionCacheStore,
+} from "./detection-cache/index.js";
 import {
   type DetectionJob,
+  type DetectionProvider,
+  type DetectOptions,
+  type Detector,
   EventDetectionQueue,
   EventDetector,
+  type FilteredEvent,
+  HeuristicEventDetector,
+  mergeConsecutiveEvents,
+  migrateEventDetectorConfig,
 } from "./event-detector/index.js";
+import { type Clock, realTimeClock, type Scheduler } from "./lib/clock.js";
+import { isSameSpeaker } from "./lib/speaker.js";
+import { type EmbeddingProvider, NoveltyFilter } from "./novelty/index.js";
+import type { CallGate } from "./pool/def.js";
+import { PreFilter } from "./pre-filter/index.js";
+import {
+  type CircuitState,
+  type ResilienceStage,
+  ResilientCaller,
+} from "./resilience/index.js";
+import {
+  type CommentSystemSnapshot,
+  parseSnapshot,
+  SNAPSHOT_VERSION,
+} from "./snapshot/index.js";
+import { getStaleReason, type MediaClock } from "./staleness/index.js";
 import { TextBuffer } from "./text-buffer/service.js";
 import { ShortTurnAggregator } from "./turn-agg/service.js";
-import type { Comment, Decision, Event, Turn } from "./type.js";
+import type { Comment, Decision, Event, Speaker, Turn } from "./type.js";
+import {
+  type TokenUsage,
+  type UsageSource,
+  type UsageStatistics,
+  UsageTracker,
+} from "./usage/index.js";
 
 export interface CommentSystemEvents {
   "comment-started": (
@@ -42,26 +84,133 @@ export interface CommentSystemEvents {
     turn: Turn,
     decisionTimeMs: number,
   ) => void;
+  /** Detected events of `turn` were dropped by the per-type detection thresholds */
+  "events-filtered": (filtered: FilteredEvent[], turn: Turn) => void;
+  /** Earlier events were extended by repeats merged in from `turn`; each keeps its id */
+  "events-updated": (events: Event[], turn: Turn) => void;
+  /** The pre-filter judged a turn too low-signal to send to the detector */
+  "detection-skipped": (turn: Turn, reason: string, score: number) => void;
+  /** A turn was dropped without being processed, e.g. stale or superseded */
+  "turn-dropped": (turn: Turn, reason: string) => void;
+  /** A comment scheduled or being generated for `turn` was aborted, e.g. by a seek */
+  "comment-cancelled": (turn: Turn, reason: string) => void;
+  /** The session budget ran out; fired once, `action` is what happens from now on */
+  "budget-exceeded": (
+    reason: string,
+    action: "downgrade" | "stop",
+    usage: UsageStatistics,
+  ) => void;
+  /**
+   * A provider call failed with a retryable error and is retried after `delayMs`;
+   * `fallback` names the fallback detection provider, absent for the stage's own calls
+   */
+  "call-retry": (
+    stage: ResilienceStage,
+    attempt: number,
+    delayMs: number,
+    error: unknown,
+    fallback?: string,
+  ) => void;
+  /**
+   * A circuit breaker opened, half-opened or closed again; `fallback` names
+   * the fallback detection provider, absent for the stage's own circuit
+   */
+  "circuit-state": (
+    stage: ResilienceStage,
+    state: CircuitState,
+    previous: CircuitState,
+    fallback?: string,
+  ) => void;
+  /** A turn's speaker differs from the last known speaker */
+  "speaker-change": (
+    speaker: Speaker,
+    previous: Speaker | undefined,
+    turn: Turn,
+  ) => void;
   error: (error: unknown) => void;
 }
 
-interface CommentSystemOptions {
+export interface CommentSystemOptions {
   config?: ConfigInput;
   apiKeys: ApiKeys;
+  /**
+   * Time source for staleness, aggregation timeouts, suggested delays and latency.
+   * Defaults to real time; pass a `VirtualClock` to drive the pipeline manually.
+   */
+  clock?: Clock & Scheduler;
+  /** Optional semantic similarity backend for the novelty filter */
+  embeddingProvider?: EmbeddingProvider;
+  /** Admission control for detection and generation calls, e.g. from `CommentSystemPool` */
+  gate?: CallGate;
+  /** Shared comment model providers; by default the system creates its own */
+  commentModels?: CommentModels;
+  /** Shared detection provider; by default one is created from `eventDetector` config */
+  detectionProvider?: DetectionProvider;
+  /**
+   * Replaces the model-backed detector, e.g. a `HeuristicEventDetector`
+   * for offline tests and demos
+   */
+  detector?: Detector;
+  /**
+   * Where cached detection results live when `detectionCache.enabled`;
+   * in memory by default. Share one store to reuse results across systems.
+   */
+  detectionCacheStore?: DetectionCacheStore;
+  /** Resume from a `snapshot()` taken earlier, e.g. before a worker restart */
+  snapshot?: unknown;
+  /**
+   * Current media position for media-time staleness. Without it the position is
+   * estimated from `onTimeUpdate`, completed turns, seeks and the playback rate.
+   */
+  mediaClock?: MediaClock;
 }
 
+/** Handoff from the decision stage to the comment stage */
+interface CommentTask {
+  turn: Turn;
+  events: Event[];
+  decision: Decision;
+  /** The job's cancellation token, carried over from detection */
+  controller: AbortController;
+  /** Clock time (ms) of the decision; `suggestedDelay` counts from here */
+  decidedAtMs: number;
+}
+
+const ungated: CallGate = {
+  run: (_kind, task, { signal } = {}) => {
+    signal?.throwIfAborted();
+    return task();
+  },
+};
+
 export class CommentSystem implements Disposable {
   private fullContextBuffer: TextBuffer; // Stores entire conversation
   private uncommentedBuffer: TextBuffer; // Stores only uncommented portions
   private shortTurnAggregator: ShortTurnAggregator; // Aggregates nearby short turns
-  private eventDetector: EventDetector;
+  private eventDetector: Detector;
   private decisionEngine: DecisionEngine;
+  private preFilter: PreFilter;
+  private detectionCache?: DetectionCache;
   private detectionQueue: EventDetectionQueue;
+  private noveltyFilter: NoveltyFilter;
+  private usage: UsageTracker;
+  private resilience: Record<ResilienceStage, ResilientCaller>;
+  private overBudget: string | null = null; // Why the budget ran out, once it has
   private config: Config;
-  private apiKeys: ApiKeys;
-  private pendingComment: AbortController | null = null;
+  private commentModels: CommentModels;
+  private gate: CallGate;
+  private clock: Clock & Scheduler;
+  private jobs = new Set<AbortController>(); // Cancellation token of each job in progress
+  private activeComment: CommentTask | null = null; // Comment being delayed or generated
+  private queuedComment: CommentTask | null = null; // Next comment, waiting for the active one
+  private commentLog: Comment[] = []; // Every comment emitted this session, oldest first
+  private lastSpeaker: Speaker | undefined; // Last known speaker, for speaker-change
+  private paused = false;
+  private pausedPendingTurn: Turn | null = null; // Aggregator content held while paused
+  private playbackRate = 1;
+  private mediaAnchor: { time: number; atMs: number } | undefined; // Last known media position
+  private inflight = new Set<Promise<unknown>>(); // Detection and generation requests in progress
   private emitter = createNanoEvents<CommentSystemEvents>();
-  private static readonly MAX_TURN_STALENESS_MS = 5000; // Drop turns older than this
   private logger = getLogger(["ai-reaction", "comment-system"]);
 
   on<E extends keyof CommentSystemEvents>(
@@ -72,6 +221,9 @@ export class CommentSystem implements Disposable {
   }
 
   constructor(private options: CommentSystemOptions) {
+    const eventDetector = migrateEventDetectorConfig(
+      options.config?.eventDetector ?? {},
+    );
     this.config = {
       apiKeys: options.apiKeys,
       commentGenerator: {
@@ -84,7 +236,15 @@ export class CommentSystem implements Disposable {
       },
       eventDetector: {
         ...defaultEventDetectorConfig,
-        ...options.config?.eventDetector,
+        ...eventDetector,
+        eventThresholds: {
+          ...defaultEventDetectorConfig.eventThresholds,
+          ...eventDetector.eventThresholds,
+        },
+      },
+      detectionQueue: {
+        ...defaultDetectionQueueConfig,
+        ...options.config?.detectionQueue,
       },
       contextBuffer: {
         ...defaultContextBufferConfig,
@@ -98,8 +258,56 @@ export class CommentSystem implements Disposable {
         ...defaultShortTurnAggregatorConfig,
         ...options.config?.shortTurnAggregator,
       },
+      novelty: {
+        ...defaultNoveltyFilterConfig,
+        ...options.config?.novelty,
+      },
+      staleness: {
+        ...defaultStalenessConfig,
+        ...options.config?.staleness,
+      },
+      preFilter: {
+        ...defaultPreFilterConfig,
+        ...options.config?.preFilter,
+      },
+      detectionCache: {
+        ...defaultDetectionCacheConfig,
+        ...options.config?.detectionCache,
+      },
+      usage: {
+        ...defaultUsageConfig,
+        ...options.config?.usage,
+        prices: {
+          ...defaultUsageConfig.prices,
+          ...options.config?.usage?.prices,
+        },
+      },
+      resilience: {
+        detection: {
+          ...defaultResilienceConfig.detection,
+          ...options.config?.resilience?.detection,
+        },
+        generation: {
+          ...defaultResilienceConfig.generation,
+          ...options.config?.resilience?.generation,
+        },
+      },
+    };
+    this.usage = new UsageTracker(this.config.usage);
+    // Provider clients are created once per system and never shared globally,
+    // unless a pool hands the same ones to several sessions
+    this.commentModels =
+      options.commentModels ??
+      new CommentModels(
+        options.apiKeys,
+        this.config.commentGenerator.providers,
+      );
+    this.gate = options.gate ?? ungated;
+    this.clock = options.clock ?? realTimeClock;
+    this.resilience = {
+      detection: this.createCaller("detection"),
+      generation: this.createCaller("generation"),
     };
-    this.apiKeys = options.apiKeys;
     // Initialize components with separate buffers
     // Full context buffer with larger retention for complete conversation history
     this.fullContextBuffer = new TextBuffer(this.config.contextBuffer);
@@ -108,14 +316,17 @@ export class CommentSystem implements Disposable {
     this.uncommentedBuffer = new TextBuffer(this.config.uncommentedBuffer);
     this.shortTurnAggregator = new ShortTurnAggregator(
       this.config.shortTurnAggregator,
+      this.clock,
     );
-    this.shortTurnAggregator.on("timeout", (bufferedTurn) => {
-      this.logger.debug("Short turn aggregator timeout triggered", () => ({
+    const enqueueBufferedTurn = (bufferedTurn: Turn, trigger: string) => {
+      this.logger.debug("Short turn aggregator flushed ({trigger})", () => ({
+        trigger,
         turnId: bufferedTurn.id,
         turnContent: bufferedTurn.content.substring(0, 100),
         startTime: bufferedTurn.startTime,
         endTime: bufferedTurn.endTime,
         duration: bufferedTurn.endTime - bufferedTurn.startTime,
+        speaker: bufferedTurn.speaker?.id,
       }));
 
       // Enqueue using current buffers' snapshots
@@ -124,43 +335,79 @@ export class CommentSystem implements Disposable {
         fullContext: this.fullContextBuffer.getWindow(),
         uncommentedText: this.uncommentedBuffer.getWindow(),
       });
-    });
+    };
+    this.shortTurnAggregator.on("timeout", (bufferedTurn) =>
+      enqueueBufferedTurn(bufferedTurn, "timeout"),
+    );
+    this.shortTurnAggregator.on("speaker-change", (bufferedTurn) =>
+      enqueueBufferedTurn(bufferedTurn, "speaker change"),
+    );
 
-    this.eventDetector = new EventDetector(
-      this.config.eventDetector,
-      this.options.apiKeys,
+    if (this.config.detectionCache.enabled) {
+      this.detectionCache = new DetectionCache(
+        this.config.detectionCache,
+        options.detectionCacheStore,
+      );
+    }
+    this.eventDetector =
+      options.detector ??
+      new EventDetector(
+        this.config.eventDetector,
+        this.options.apiKeys,
+        this.clock,
+        options.detectionProvider,
+        this.resilience.detection,
+        this.detectionCache,
+      );
+    this.preFilter = new PreFilter(
+      this.config.preFilter,
+      new HeuristicEventDetector(this.config.eventDetector.heuristic),
+    );
+    this.noveltyFilter = new NoveltyFilter(
+      this.config.novelty,
+      options.embeddingProvider,
+    );
+    this.decisionEngine = new DecisionEngine(
+      this.config.decisionEngine,
+      this.clock,
     );
-    this.decisionEngine = new DecisionEngine(this.config.decisionEngine);
 
     this.detectionQueue = new EventDetectionQueue({
+      config: this.config.detectionQueue,
+      clock: this.clock,
       process: async (job) => {
         this.logger.debug("Processing detection job", () => ({
           jobTurnId: job.turn.id,
           turnContent: job.turn.content.substring(0, 50),
           enqueuedAtMs: job.enqueuedAtMs,
-          queueDelayMs: Date.now() - job.enqueuedAtMs,
+          queueDelayMs: this.clock.now() - job.enqueuedAtMs,
           fullContextLength: job.fullContext?.length,
           uncommentedTextLength: job.uncommentedText?.length,
         }));
         await this.processJob(job);
       },
-      isStale: (job) => {
-        const stale = this.isTurnStale(job.turn, job.enqueuedAtMs);
+      processBatch: async (jobs) => {
+        this.logger.debug("Processing detection batch", () => ({
+          jobTurnIds: jobs.map((job) => job.turn.id),
+          queueDelayMs: this.clock.now() - jobs[0].enqueuedAtMs,
+        }));
+        await this.processBatch(jobs);
+      },
+      getStaleReason: (job) => {
+        const reason = this.getStaleReason(job);
         this.logger.debug("Staleness check for job", () => ({
           jobTurnId: job.turn.id,
           enqueuedAtMs: job.enqueuedAtMs,
-          ageMs: Date.now() - job.enqueuedAtMs,
-          maxStaleMs: CommentSystem.MAX_TURN_STALENESS_MS,
-          stale,
+          ageMs: this.clock.now() - job.enqueuedAtMs,
+          mediaTime: this.currentMediaTime(),
+          staleness: this.config.staleness,
+          reason,
         }));
-        return stale;
+        return reason;
       },
-      onDropStale: (job) =>
-        this.logger.info("Dropped stale queued turn", {
-          jobTurnId: job.turn.id,
-          enqueuedAtMs: job.enqueuedAtMs,
-          ageMs: Date.now() - job.enqueuedAtMs,
-        }),
+      onDrop: (job, reason) => this.dropTurn(job.turn, reason),
+      onReplace: (dropped) =>
+        this.dropTurn(dropped.turn, "superseded: a newer turn was queued"),
     });
     this.detectionQueue.on("error", (error, job) => {
       this.logger.error("Detection queue error: {message}", {
@@ -168,10 +415,12 @@ export class CommentSystem implements Disposable {
         message: error.message,
         jobTurnId: job.turn.id,
         enqueuedAtMs: job.enqueuedAtMs,
-        queueDelayMs: Date.now() - job.enqueuedAtMs,
+        queueDelayMs: this.clock.now() - job.enqueuedAtMs,
       });
       this.emitter.emit("error", error);
     });
+
+    if (options.snapshot !== undefined) this.restore(options.snapshot);
   }
 
   /**
@@ -183,6 +432,7 @@ export class CommentSystem implements Disposable {
       content: data.content,
       startTime: data.startTime,
       endTime: data.endTime,
+      speaker: data.speaker,
     };
 
     this.logger.debug("Turn completed", () => ({
@@ -192,6 +442,19 @@ export class CommentSystem implements Disposable {
       contentPreview: turn.content?.substring(0, 50) ?? "",
     }));
 
+    if (turn.speaker && !isSameSpeaker(turn.speaker, this.lastSpeaker)) {
+      this.logger.debug("Speaker changed", {
+        turnId: turn.id,
+        speaker: turn.speaker.id,
+        previousSpeaker: this.lastSpeaker?.id,
+      });
+      this.emitter.emit("speaker-change", turn.speaker, this.lastSpeaker, turn);
+      this.lastSpeaker = turn.speaker;
+    }
+
+    // A turn completes when playback reaches its end
+    this.anchorMediaTime(turn.endTime);
+
     // Always append incoming turns to buffers immediately
     this.fullContextBuffer.append(turn);
     this.uncommentedBuffer.append(turn);
@@ -240,7 +503,7 @@ export class CommentSystem implements Disposable {
       uncommentedTextLength: this.uncommentedBuffer.getWindow().length,
     }));
 
-    // Enqueue detection job; queue handles prefer-latest and staleness
+    // Enqueue detection job; queue applies its strategy and staleness
     this.detectionQueue.enqueue({
       turn: readyTurn,
       fullContext: this.fullContextBuffer.getWindow(),
@@ -248,113 +511,321 @@ export class CommentSystem implements Disposable {
     });
   }
 
-  private isTurnStale(_turn: Turn, enqueuedAtMs?: number): boolean {
-    // Determine staleness based on wall-clock enqueue time only.
-    // Turn timestamps are media-relative (seconds) and are not comparable to epoch ms.
-    if (enqueuedAtMs === undefined) return false;
-    return Date.now() - enqueuedAtMs > CommentSystem.MAX_TURN_STALENESS_MS;
+  private getStaleReason(job: DetectionJob): string | null {
+    return getStaleReason(this.config.staleness, {
+      turn: job.turn,
+      enqueuedAtMs: job.enqueuedAtMs,
+      nowMs: this.clock.now(),
+      mediaTime: this.currentMediaTime(),
+    });
+  }
+
+  private dropTurn(turn: Turn, reason: string): void {
+    this.logger.info("Turn dropped: {reason}", { reason, turnId: turn.id });
+    this.emitter.emit("turn-dropped", turn, reason);
+  }
+
+  /**
+   * Media position in seconds: from `mediaClock` if given, otherwise extrapolated
+   * from the last reported position at the current playback rate.
+   */
+  private currentMediaTime(): number | undefined {
+    if (this.options.mediaClock) return this.options.mediaClock.currentTime();
+    if (!this.mediaAnchor) return undefined;
+    const elapsedSec = this.paused
+      ? 0
+      : ((this.clock.now() - this.mediaAnchor.atMs) / 1000) * this.playbackRate;
+    return this.mediaAnchor.time + elapsedSec;
+  }
+
+  private anchorMediaTime(time: number): void {
+    this.mediaAnchor = { time, atMs: this.clock.now() };
   }
 
   private async processJob(job: DetectionJob): Promise<void> {
+    if (await this.admit(job)) await this.detectAndDecide([job]);
+  }
+
+  /** Detect the turns of a batch in one request */
+  private async processBatch(batch: DetectionJob[]): Promise<void> {
+    const jobs: DetectionJob[] = [];
+    for (const job of batch) {
+      if (await this.admit(job)) jobs.push(job);
+    }
+    if (jobs.length > 0) await this.detectAndDecide(jobs);
+  }
+
+  /**
+   * Whether `job` is still worth detecting: not stale, the budget has not
+   * stopped paid calls, and not skipped by the pre-filter
+   */
+  private async admit(job: DetectionJob): Promise<boolean> {
     // Drop if too delayed
-    if (this.isTurnStale(job.turn, job.enqueuedAtMs)) {
-      this.logger.info("Turn too stale, dropping", () => ({
-        jobTurnId: job.turn.id,
-        enqueuedAtMs: job.enqueuedAtMs,
-      }));
-      return;
+    const staleReason = this.getStaleReason(job);
+    if (staleReason) {
+      this.dropTurn(job.turn, staleReason);
+      return false;
     }
-    this.logger.debug("Starting event detection", () => ({
-      turnId: job.turn.id,
-      contentLength: job.turn.content?.length ?? 0,
-      endTime: job.turn.endTime,
-      fullContextLength: job.fullContext?.length,
-      uncommentedTextLength: job.uncommentedText?.length,
-    }));
 
-    const detectionStart = performance.now();
-    const events = await this.eventDetector.detect(job);
-    const detectionTimeMs = performance.now() - detectionStart;
-
-    this.logger.info("Event detection completed", {
-      turnId: job.turn.id,
-      eventsDetected: events.length,
-      detectionTimeMs: Math.round(detectionTimeMs),
-      eventTypes: events.map((e) => e.type),
-      avgConfidence:
-        events.length > 0
-          ? (
-              events.reduce((sum, e) => sum + e.confidence, 0) / events.length
-            ).toFixed(2)
-          : 0,
-    });
+    if (this.overBudget && this.budgetAction() === "stop") {
+      this.dropTurn(job.turn, `budget: ${this.overBudget}`);
+      return false;
+    }
 
-    // Emit event detection results
-    this.emitter.emit(
-      "events-detected",
-      events,
-      job.turn,
-      Math.round(detectionTimeMs),
-    );
+    const verdict = await this.preFilter.check(job);
+    if (verdict.skip) {
+      this.logger.info("Detection skipped: {reason}", {
+        reason: verdict.reason,
+        turnId: job.turn.id,
+        score: verdict.score,
+      });
+      this.emitter.emit(
+        "detection-skipped",
+        job.turn,
+        verdict.reason ?? "low signal",
+        verdict.score,
+      );
+      return false;
+    }
+    return true;
+  }
 
-    // Make decision
-    const decisionStart = performance.now();
-    const decision = this.decisionEngine.evaluate(events, job.turn.endTime);
-    const decisionTimeMs = performance.now() - decisionStart;
-
-    this.logger.info("Decision: {decision}", {
-      decision: decision.shouldComment ? "COMMENT" : "SKIP",
-      score: parseFloat(decision.score.toFixed(2)),
-      confidence: parseFloat(decision.confidence.toFixed(2)),
-      priority: decision.priority,
-      suggestedDelayMs: decision.suggestedDelay,
-      reasoning: decision.reasoning,
-      factors: decision.factors,
-      decisionTimeMs: Math.round(decisionTimeMs),
-      turnId: job.turn.id,
-    });
+  /**
+   * Detect events in `jobs` (several only in batch mode), emit them per turn,
+   * then decide once on the newest turn or once per turn (`detectionQueue.batchDecision`).
+   */
+  private async detectAndDecide(jobs: DetectionJob[]): Promise<void> {
+    const newest = jobs[jobs.length - 1];
+    // One token shared by every stage, so cancelling the job aborts whatever is in flight
+    const controller = new AbortController();
+    const { signal } = controller;
+    let handedOff = false;
+    this.jobs.add(controller);
+    try {
+      this.logger.debug("Starting event detection", () => ({
+        turnIds: jobs.map((job) => job.turn.id),
+        contentLength: jobs.reduce(
+          (sum, job) => sum + (job.turn.content?.length ?? 0),
+          0,
+        ),
+        endTime: newest.turn.endTime,
+        fullContextLength: newest.fullContext?.length,
+        uncommentedTextLength: newest.uncommentedText?.length,
+      }));
 
-    // Emit decision results
-    this.emitter.emit(
-      "decision-made",
-      decision,
-      job.turn,
-      Math.round(decisionTimeMs),
-    );
+      const filtered: [FilteredEvent[], Turn][] = [];
+      const updated: [Event[], Turn][] = [];
+      const options: DetectOptions = {
+        signal,
+        model: this.downgraded()
+          ? this.config.usage.downgradeDetectionModel
+          : undefined,
+        onUsage: (usage, model, provider) =>
+          this.recordUsage({ stage: "detection", provider, model }, usage),
+        onFiltered: (events, turn) => filtered.push([events, turn]),
+        onUpdated: (events, turn) => updated.push([events, turn]),
+      };
+      const detectionStart = this.clock.now();
+      const eventsPerJob = await this.track(
+        this.gate.run(
+          "detection",
+          async () => {
+            if (jobs.length === 1) {
+              return [await this.eventDetector.detect(newest, options)];
+            }
+            if (this.eventDetector.detectBatch) {
+              return this.eventDetector.detectBatch(jobs, options);
+            }
+            const results: Event[][] = [];
+            for (const job of jobs) {
+              results.push(await this.eventDetector.detect(job, options));
+            }
+            return results;
+          },
+          { signal },
+        ),
+      );
+      const detectionTimeMs = this.clock.now() - detectionStart;
+      signal.throwIfAborted();
+
+      const allEvents = eventsPerJob.flat();
+      this.logger.info("Event detection completed", {
+        turnIds: jobs.map((job) => job.turn.id),
+        eventsDetected: allEvents.length,
+        detectionTimeMs: Math.round(detectionTimeMs),
+        eventTypes: allEvents.map((e) => e.type),
+        avgConfidence:
+          allEvents.length > 0
+            ? (
+                allEvents.reduce((sum, e) => sum + e.confidence, 0) /
+                allEvents.length
+              ).toFixed(2)
+            : 0,
+      });
+
+      // Emit event detection results
+      for (const [events, turn] of filtered) {
+        this.emitter.emit("events-filtered", events, turn);
+      }
+      for (const [events, turn] of updated) {
+        this.emitter.emit("events-updated", events, turn);
+      }
+      jobs.forEach((job, index) => {
+        this.emitter.emit(
+          "events-detected",
+          eventsPerJob[index],
+          job.turn,
+          Math.round(detectionTimeMs),
+        );
+      });
 
-    // Generate comment if decided
-    if (decision.shouldComment) {
-      // Cancel any pending comment
-      if (this.pendingComment) {
-        this.logger.debug("Cancelling previous pending comment", {
-          turnId: job.turn.id,
+      // A batch decision sees same-type events of consecutive turns as one spanning event
+      const candidates =
+        this.config.detectionQueue.batchDecision === "turn"
+          ? jobs.map((job, index) => ({
+              turn: job.turn,
+              events: eventsPerJob[index],
+            }))
+          : [{ turn: newest.turn, events: mergeConsecutiveEvents(allEvents) }];
+
+      // Each comment would supersede the one before, so only the newest is handed off
+      let chosen: Omit<CommentTask, "controller" | "decidedAtMs"> | undefined;
+      for (const { turn, events } of candidates) {
+        // Make decision
+        const decisionStart = this.clock.now();
+        const decision = this.decisionEngine.evaluate(events, turn.endTime);
+        const decisionTimeMs = this.clock.now() - decisionStart;
+
+        this.logger.info("Decision: {decision}", {
+          decision: decision.shouldComment ? "COMMENT" : "SKIP",
+          score: parseFloat(decision.score.toFixed(2)),
+          confidence: parseFloat(decision.confidence.toFixed(2)),
+          priority: decision.priority,
+          suggestedDelayMs: decision.suggestedDelay,
+          reasoning: decision.reasoning,
+          factors: decision.factors,
+          decisionTimeMs: Math.round(decisionTimeMs),
+          turnId: turn.id,
         });
-        this.pendingComment.abort();
-        this.pendingComment = null;
+
+        // Emit decision results
+        this.emitter.emit(
+          "decision-made",
+          decision,
+          turn,
+          Math.round(decisionTimeMs),
+        );
+
+        if (decision.shouldComment) chosen = { turn, events, decision };
+      }
+
+      // Generate comment if decided; nothing is shown while paused
+      if (!chosen || this.paused) return;
+
+      if (this.overBudget && this.budgetAction() === "stop") {
+        const reason = `budget: ${this.overBudget}`;
+        this.logger.info("Comment skipped: {reason}", {
+          reason,
+          turnId: chosen.turn.id,
+        });
+        this.emitter.emit("comment-rejected", reason, chosen.turn);
+        return;
+      }
+
+      // Hand off without waiting, so detection keeps up with new turns
+      this.scheduleComment({
+        ...chosen,
+        controller,
+        decidedAtMs: this.clock.now(),
+      });
+      handedOff = true;
+    } catch (error) {
+      if (!signal.aborted) throw error;
+      for (const job of jobs) {
+        this.dropTurn(job.turn, `cancelled: ${String(signal.reason)}`);
+      }
+    } finally {
+      // The comment stage releases the token once it is done with it
+      if (!handedOff) this.jobs.delete(controller);
+    }
+  }
+
+  /**
+   * Queue a comment behind the active one, replacing any comment already waiting.
+   * With `whileCommenting: "supersede"` the active comment is aborted instead of waited for.
+   */
+  private scheduleComment(task: CommentTask): void {
+    const reason = "superseded: a newer comment was scheduled";
+    if (this.queuedComment) this.cancelComment(this.queuedComment, reason);
+    this.queuedComment = task;
+    if (
+      this.activeComment &&
+      this.config.decisionEngine.whileCommenting === "supersede"
+    ) {
+      // Its run reports the cancellation when it unwinds
+      this.activeComment.controller.abort(reason);
+    }
+    void this.runCommentStage();
+  }
+
+  private async runCommentStage(): Promise<void> {
+    if (this.activeComment) return; // The running stage picks up the queued comment
+    while (this.queuedComment) {
+      const task = this.queuedComment;
+      this.queuedComment = null;
+      this.activeComment = task;
+      try {
+        await this.runComment(task);
+      } finally {
+        this.activeComment = null;
+        this.jobs.delete(task.controller);
       }
+    }
+  }
 
+  private async runComment({
+    turn,
+    events,
+    decision,
+    controller: { signal },
+    decidedAtMs,
+  }: CommentTask): Promise<void> {
+    try {
+      // suggestedDelay is in media time; wait less when playing faster,
+      // and count time already spent queued behind another comment
+      const delayMs = Math.max(
+        0,
+        decision.suggestedDelay / this.playbackRate -
+          (this.clock.now() - decidedAtMs),
+      );
       this.logger.info("Scheduling comment generation", {
-        turnId: job.turn.id,
-        delayMs: decision.suggestedDelay,
+        turnId: turn.id,
+        delayMs,
+        playbackRate: this.playbackRate,
         priority: decision.priority,
       });
 
       // Schedule comment generation with suggested delay
-      this.pendingComment = new AbortController();
-      try {
-        await delay(decision.suggestedDelay, {
-          signal: this.pendingComment.signal,
-        });
-        await this.generateAndEmitComment(job.turn, events);
-      } finally {
-        this.pendingComment = null;
+      await this.clock.delay(delayMs, { signal });
+      // Only the request is tracked; settle() must not wait out the delay
+      await this.track(this.generateAndEmitComment(turn, events, signal));
+    } catch (error) {
+      if (!signal.aborted) {
+        this.emitter.emit("error", error);
+        return;
       }
+      this.logger.info("Comment cancelled: {reason}", {
+        reason: String(signal.reason),
+        turnId: turn.id,
+      });
+      this.emitter.emit("comment-cancelled", turn, String(signal.reason));
     }
   }
 
   private async generateAndEmitComment(
     turn: Turn,
     events: Event[],
+    signal: AbortSignal,
   ): Promise<void> {
     try {
       // Use both full context and uncommented text for generation
@@ -368,10 +839,12 @@ export class CommentSystem implements Disposable {
         historicalText: contextForGen.fullContext, // Use full conversation context
         uncommentedText: contextForGen.uncommentedText, // New: provide uncommented portion
         events,
-        previousComments: [],
+        currentSpeaker: turn.speaker,
+        // generateComment keeps only the last `historyDepth` of these
+        previousComments: this.commentLog,
       };
 
-      const startCommentTime = performance.now();
+      const startCommentTime = this.clock.now();
 
       this.logger.info("Starting comment generation", () => ({
         turnId: turn.id,
@@ -382,62 +855,68 @@ export class CommentSystem implements Disposable {
         eventCount: events.length,
       }));
 
-      const commentResponse = await generateComment(context, {
-        ...this.config.commentGenerator,
-        openaiClient: this.apiKeys.openai
-          ? new OpenAI({
-              apiKey: this.apiKeys.openai,
-              dangerouslyAllowBrowser: true,
-            })
-          : undefined,
-        // signal:
+      let draft = await this.runGenerator(context, turn, startCommentTime, {
+        announce: true,
+        signal,
       });
+      if (!draft) return;
 
-      this.emitter.emit("comment-started", commentResponse, turn);
-
-      // for await (const chunk of commentResponse) {
-      //   if (chunk.type === "agent_updated_stream_event") {
-      //     this.logger.debug(`Agent updated: ${chunk.agent.name}`);
-      //   } else if (chunk.type === "run_item_stream_event") {
-      //     this.logger.debug(`Run item: ${chunk.name}, ${JSON.stringify(chunk.item.toJSON())}`);
-      //   } else if (chunk.type === "raw_model_stream_event") {
-      //     this.logger.debug(`Raw model: ${JSON.stringify(chunk.data)}`);
-      //   }
-      // }
-      await commentResponse.completed;
-      const commentResult = commentResponse.finalOutput!;
-
-      if (commentResult.reject) {
-        this.logger.warn("Comment rejected by generator", {
-          reason: commentResult.reason,
-          turnId: turn.id,
-          generationTimeMs: Math.round(performance.now() - startCommentTime),
-        });
-        this.emitter.emit("comment-rejected", commentResult.reason, turn);
-        return;
+      // Novelty stage: don't show the audience the same insight twice
+      let novelty = await this.noveltyFilter.check(
+        draft.content,
+        this.commentLog,
+        { signal },
+      );
+      if (novelty.duplicate && this.config.novelty.action === "regenerate") {
+        this.logger.info(
+          "Comment too similar to an earlier one, regenerating",
+          {
+            turnId: turn.id,
+            similarity: parseFloat(novelty.similarity.toFixed(3)),
+            method: novelty.method,
+            matchedCommentId: novelty.matchedCommentId,
+          },
+        );
+        draft = await this.runGenerator(
+          { ...context, rejectedDrafts: [draft.content] },
+          turn,
+          startCommentTime,
+          { announce: false, signal },
+        );
+        if (!draft) return;
+        novelty = await this.noveltyFilter.check(
+          draft.content,
+          this.commentLog,
+          { signal },
+        );
       }
 
-      if (!commentResult.content) {
-        this.logger.warn("Comment generation produced empty content", {
+      if (novelty.duplicate) {
+        const reason = `duplicate: too similar to an earlier comment (${novelty.method} similarity ${novelty.similarity.toFixed(2)})`;
+        this.logger.warn("Comment rejected as duplicate", {
+          reason,
           turnId: turn.id,
-          generationTimeMs: Math.round(performance.now() - startCommentTime),
+          matchedCommentId: novelty.matchedCommentId,
+          generationTimeMs: Math.round(this.clock.now() - startCommentTime),
         });
+        this.emitter.emit("comment-rejected", reason, turn);
         return;
       }
 
       const comment: Comment = {
-        content: commentResult.content,
-        writer: commentResponse.lastAgent?.name || "",
-        length: commentResult.content.length,
+        content: draft.content,
+        writer: draft.writer,
+        length: draft.content.length,
         id: nanoid(),
-        generationTime: performance.now() - startCommentTime,
+        generationTime: this.clock.now() - startCommentTime,
         metadata: {
           timestamp: turn.endTime,
         },
       };
 
-      // Update decision engine history
+      // Update decision engine history and the session log
       this.decisionEngine.updateHistory(comment);
+      this.commentLog.push(comment);
 
       // Reset uncommented buffer after generating comment
       this.uncommentedBuffer.clear();
@@ -456,10 +935,169 @@ export class CommentSystem implements Disposable {
         bufferStatsBeforeReset: this.uncommentedBuffer.getStatistics(),
       }));
     } catch (error) {
+      // Cancellation is reported by processJob
+      if (signal.aborted) throw error;
       this.emitter.emit("error", error);
     }
   }
 
+  /**
+   * Run the selector/writers once; emits `comment-rejected` when the selector declines.
+   * Returns null when there is nothing to emit.
+   */
+  private async runGenerator(
+    context: GenerationContext,
+    turn: Turn,
+    startCommentTime: number,
+    options: { announce: boolean; signal: AbortSignal },
+  ): Promise<{ content: string; writer: string } | null> {
+    return this.gate.run(
+      "generation",
+      () => this.generateOnce(context, turn, startCommentTime, options),
+      { signal: options.signal },
+    );
+  }
+
+  private async generateOnce(
+    context: GenerationContext,
+    turn: Turn,
+    startCommentTime: number,
+    { announce, signal }: { announce: boolean; signal: AbortSignal },
+  ): Promise<{ content: string; writer: string } | null> {
+    const commentResponse = await generateComment(context, {
+      ...this.commentGeneratorConfig(),
+      models: this.commentModels,
+      onUsage: (source, usage) => this.recordUsage(source, usage),
+      resilience: this.resilience.generation,
+      signal,
+    });
+
+    // Regenerations are not announced; listeners keep streaming into the first entry
+    if (announce) this.emitter.emit("comment-started", commentResponse, turn);
+
+    // for await (const chunk of commentResponse) {
+    //   if (chunk.type === "agent_updated_stream_event") {
+    //     this.logger.debug(`Agent updated: ${chunk.agent.name}`);
+    //   } else if (chunk.type === "run_item_stream_event") {
+    //     this.logger.debug(`Run item: ${chunk.name}, ${JSON.stringify(chunk.item.toJSON())}`);
+    //   } else if (chunk.type === "raw_model_stream_event") {
+    //     this.logger.debug(`Raw model: ${JSON.stringify(chunk.data)}`);
+    //   }
+    // }
+    await commentResponse.completed;
+    // A stream aborted mid-run may complete without raising
+    signal.throwIfAborted();
+    const commentResult = commentResponse.finalOutput!;
+
+    if (commentResult.reject) {
+      this.logger.warn("Comment rejected by generator", {
+        reason: commentResult.reason,
+        turnId: turn.id,
+        generationTimeMs: Math.round(this.clock.now() - startCommentTime),
+      });
+      this.emitter.emit("comment-rejected", commentResult.reason, turn);
+      return null;
+    }
+
+    if (!commentResult.content) {
+      this.logger.warn("Comment generation produced empty content", {
+        turnId: turn.id,
+        generationTimeMs: Math.round(this.clock.now() - startCommentTime),
+      });
+      return null;
+    }
+
+    return {
+      content: commentResult.content,
+      writer: commentResponse.lastAgent?.name || "",
+    };
+  }
+
+  private createCaller(stage: ResilienceStage): ResilientCaller {
+    // Providers answer in real time, so timeouts and backoff do too,
+    // even when the pipeline runs on a virtual clock
+    const caller = new ResilientCaller(stage, this.config.resilience[stage]);
+    caller.on("retry", (attempt, delayMs, error, fallback) =>
+      this.emitter.emit("call-retry", stage, attempt, delayMs, error, fallback),
+    );
+    caller.on("state-change", (state, previous, fallback) =>
+      this.emitter.emit("circuit-state", stage, state, previous, fallback),
+    );
+    return caller;
+  }
+
+  private recordUsage(source: UsageSource, usage: TokenUsage): void {
+    this.usage.record(source, usage);
+    if (this.overBudget) return;
+    this.overBudget = this.usage.getBudgetExceeded();
+    if (!this.overBudget) return;
+    const action = this.budgetAction();
+    this.logger.warn("Budget exceeded: {reason}", {
+      reason: this.overBudget,
+      action,
+    });
+    this.emitter.emit(
+      "budget-exceeded",
+      this.overBudget,
+      action,
+      this.usage.getStatistics(),
+    );
+  }
+
+  /** What happens once over budget; downgrading without downgrade models stops instead */
+  private budgetAction(): "downgrade" | "stop" {
+    const { onBudgetExceeded, downgradeDetectionModel, downgradeCommentModel } =
+      this.config.usage;
+    return onBudgetExceeded === "downgrade" &&
+      (downgradeDetectionModel || downgradeCommentModel)
+      ? "downgrade"
+      : "stop";
+  }
+
+  private downgraded(): boolean {
+    return this.overBudget !== null && this.budgetAction() === "downgrade";
+  }
+
+  /** Comment generator config, with the downgrade model once over budget */
+  private commentGeneratorConfig() {
+    const config = this.config.commentGenerator;
+    const model = this.config.usage.downgradeCommentModel;
+    if (!this.downgraded() || !model) return config;
+    return {
+      ...config,
+      selectorModel: model,
+      writers: config.writers.map((w) => ({ ...w, model })),
+    };
+  }
+
+  private track<T>(promise: Promise<T>): Promise<T> {
+    this.inflight.add(promise);
+    const untrack = () => this.inflight.delete(promise);
+    promise.then(untrack, untrack);
+    return promise;
+  }
+
+  /**
+   * Resolve once no detection or generation request is in flight.
+   * Pending timers (aggregation timeouts, suggested delays) are not awaited,
+   * so a virtual clock can be advanced safely afterwards.
+   */
+  async settle(): Promise<void> {
+    while (true) {
+      // Yield a macrotask so queued jobs and timer callbacks get to start their requests
+      await new Promise<void>((resolve) => globalThis.setTimeout(resolve, 0));
+      if (this.inflight.size === 0) return;
+      await Promise.allSettled(this.inflight);
+    }
+  }
+
+  /**
+   * Get every comment emitted in this session, oldest first
+   */
+  getComments(): readonly Comment[] {
+    return this.commentLog;
+  }
+
   /**
    * Get current statistics
    */
@@ -467,10 +1105,166 @@ export class CommentSystem implements Disposable {
     return {
       fullContextBuffer: this.fullContextBuffer.getStatistics(),
       uncommentedBuffer: this.uncommentedBuffer.getStatistics(),
+      detectionQueue: this.detectionQueue.getStatistics(),
+      preFilter: this.preFilter.getStatistics(),
+      detectionCache: this.detectionCache?.getStatistics(),
+      usage: this.usage.getStatistics(),
+      circuits: {
+        detection: this.resilience.detection.getState(),
+        generation: this.resilience.generation.getState(),
+        /** Each fallback detection provider, by `modelProvider/model` */
+        detectionFallbacks: this.resilience.detection.getForkStates(),
+      },
+      commentCount: this.commentLog.length,
       config: this.config,
     };
   }
 
+  /**
+   * The media jumped to `time` (seconds). Cancels pending comments, drops context
+   * the audience has not heard yet and rebuilds timing state for the new position.
+   */
+  onSeek(time: number): void {
+    this.logger.info("Seek", { time });
+    this.anchorMediaTime(time);
+    // Detections and comments in flight refer to the old position
+    this.cancelJobs("seek");
+    this.detectionQueue.clear("cancelled: seek");
+    this.shortTurnAggregator.clear();
+    this.pausedPendingTurn = null;
+    this.fullContextBuffer.discardAfter(time);
+    // Nothing near the new position has been said yet
+    this.uncommentedBuffer.clear();
+    this.decisionEngine.seek(time);
+    this.eventDetector.seek?.(time);
+    this.lastSpeaker = undefined;
+  }
+
+  /**
+   * Playback paused: cancels pending comments and holds short-turn aggregation.
+   */
+  onPause(): void {
+    if (this.paused) return;
+    this.logger.info("Pause");
+    const mediaTime = this.currentMediaTime();
+    if (mediaTime !== undefined) this.anchorMediaTime(mediaTime);
+    this.paused = true;
+    this.cancelComments("pause");
+    this.detectionQueue.clear("cancelled: pause");
+    this.pausedPendingTurn = this.shortTurnAggregator.snapshot();
+    this.shortTurnAggregator.clear();
+  }
+
+  onResume(): void {
+    if (!this.paused) return;
+    this.logger.info("Resume", {
+      hasPendingTurn: this.pausedPendingTurn !== null,
+    });
+    this.paused = false;
+    if (this.mediaAnchor) this.anchorMediaTime(this.mediaAnchor.time);
+    this.shortTurnAggregator.restore(this.pausedPendingTurn);
+    this.pausedPendingTurn = null;
+  }
+
+  /**
+   * Playback speed changed; wall-clock waits are scaled so they keep their media-time length.
+   */
+  onRateChange(rate: number): void {
+    if (!(rate > 0)) {
+      throw new RangeError(`Playback rate must be positive, got ${rate}`);
+    }
+    this.logger.info("Playback rate changed", {
+      rate,
+      previousRate: this.playbackRate,
+    });
+    const mediaTime = this.currentMediaTime();
+    if (mediaTime !== undefined) this.anchorMediaTime(mediaTime);
+    this.playbackRate = rate;
+    this.shortTurnAggregator.setPlaybackRate(rate);
+  }
+
+  /**
+   * Report the current media position (seconds), e.g. from the player's time updates.
+   */
+  onTimeUpdate(time: number): void {
+    this.anchorMediaTime(time);
+  }
+
+  /** Cancel a comment that has not started yet */
+  private cancelComment(task: CommentTask, reason: string): void {
+    task.controller.abort(reason);
+    this.jobs.delete(task.controller);
+    this.logger.info("Comment cancelled: {reason}", {
+      reason,
+      turnId: task.turn.id,
+    });
+    this.emitter.emit("comment-cancelled", task.turn, reason);
+  }
+
+  /** Cancel the active and queued comments; detection keeps running */
+  private cancelComments(reason: string): void {
+    if (this.queuedComment) {
+      this.cancelComment(this.queuedComment, reason);
+      this.queuedComment = null;
+    }
+    this.activeComment?.controller.abort(reason);
+  }
+
+  /** Abort every job in progress, including provider requests and agent runs */
+  private cancelJobs(reason: string): void {
+    this.cancelComments(reason);
+    for (const controller of this.jobs) controller.abort(reason);
+    this.jobs.clear();
+  }
+
+  /**
+   * JSON-serializable state for resuming this session later with `restore()`.
+   * Queued detections and comments being generated are not included.
+   */
+  snapshot(): CommentSystemSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: this.clock.now(),
+      contextBuffer: this.fullContextBuffer.snapshot(),
+      uncommentedBuffer: this.uncommentedBuffer.snapshot(),
+      decisionEngine: this.decisionEngine.snapshot(),
+      pendingTurn: this.shortTurnAggregator.snapshot(),
+      pausedPendingTurn: this.pausedPendingTurn,
+      comments: this.commentLog.map((c) => ({ ...c })),
+      lastSpeaker: this.lastSpeaker,
+    };
+  }
+
+  /**
+   * Replace all state with a snapshot; older snapshot versions are migrated.
+   * Throws if the snapshot is invalid, leaving the current state untouched.
+   */
+  restore(input: unknown): void {
+    const snapshot = parseSnapshot(input);
+    this.clear();
+    this.fullContextBuffer.restore(snapshot.contextBuffer);
+    this.uncommentedBuffer.restore(snapshot.uncommentedBuffer);
+    this.decisionEngine.restore(snapshot.decisionEngine);
+    if (this.paused) {
+      // Hold it like onPause does; a live aggregator would flush it on its timer
+      this.pausedPendingTurn =
+        snapshot.pausedPendingTurn ?? snapshot.pendingTurn;
+    } else {
+      // Taken while paused but restored while playing: resume the held turn now
+      this.shortTurnAggregator.restore(
+        snapshot.pendingTurn ?? snapshot.pausedPendingTurn,
+      );
+    }
+    this.commentLog = snapshot.comments.map((c) => ({ ...c }));
+    this.lastSpeaker = snapshot.lastSpeaker;
+    this.logger.info("Restored from snapshot", {
+      savedAt: snapshot.savedAt,
+      commentCount: this.commentLog.length,
+      hasPendingTurn:
+        snapshot.pendingTurn !== null || snapshot.pausedPendingTurn !== null,
+    });
+  }
+
   /**
    * Clear all state
    */
@@ -478,16 +1272,21 @@ export class CommentSystem implements Disposable {
     this.fullContextBuffer.clear();
     this.uncommentedBuffer.clear();
     this.shortTurnAggregator.clear();
-    if (this.pendingComment) {
-      this.pendingComment.abort();
-      this.pendingComment = null;
-    }
+    this.commentLog = [];
+    this.lastSpeaker = undefined;
+    this.pausedPendingTurn = null;
+    this.mediaAnchor = undefined;
+    this.noveltyFilter.clear();
+    this.eventDetector.clear?.();
+    this.detectionQueue.clear();
+    this.cancelJobs("clear");
   }
 
   /**
    * Destroy the system and clean up
    */
   [Symbol.dispose](): void {
+    this.cancelJobs("disposed");
     this.clear();
   }
 }
@@ -1,4 +1,5 @@
 import z from "zod/v4";
+import { textSegmentSchema } from "../type.js";
 
 export const TextBufferConfigSchema = z.object({
   bufferSize: z.number().min(0).describe("Buffer size in words"),
@@ -16,6 +17,11 @@ export const BufferStatsSchema = z.object({
   averageSegmentSize: z.number(),
 });
 
+export const TextBufferStateSchema = z.object({
+  segments: z.array(textSegmentSchema),
+  position: z.number().int().min(0),
+});
+
 export const defaultTextBufferConfig: TextBufferConfig = {
   bufferSize: 10000,
   windowDuration: 30,
@@ -25,3 +31,4 @@ export const defaultTextBufferConfig: TextBufferConfig = {
 
 export type TextBufferConfig = z.output<typeof TextBufferConfigSchema>;
 export type BufferStats = z.output<typeof BufferStatsSchema>;
+export type TextBufferState = z.output<typeof TextBufferStateSchema>;
@@ -2,5 +2,7 @@ export {
   defaultTextBufferConfig,
   type TextBufferConfig,
   TextBufferConfigSchema,
+  type TextBufferState,
+  TextBufferStateSchema,
 } from "./def.js";
 export { TextBuffer } from "./service.js";
@@ -1,6 +1,7 @@
 import { getLogger } from "@logtape/logtape";
+import { isSameSpeaker, speakerLabel } from "../lib/speaker.js";
 import type { TextSegment, Turn } from "../type.js";
-import type { BufferStats, TextBufferConfig } from "./def.js";
+import type { BufferStats, TextBufferConfig, TextBufferState } from "./def.js";
 
 export class TextBuffer {
   private segments: TextSegment[] = [];
@@ -22,6 +23,7 @@ export class TextBuffer {
       content: turn.content,
       timestamp: turn.endTime,
       position: this.position++,
+      speaker: turn.speaker,
     };
 
     this.segments.push(segment);
@@ -44,7 +46,7 @@ export class TextBuffer {
     const cutoff = now - size * 1000;
 
     const filteredSegments = this.segments.filter((s) => s.timestamp >= cutoff);
-    const windowText = filteredSegments.map((s) => s.content).join(" ");
+    const windowText = this.join(filteredSegments);
 
     this.logger.trace("Retrieved window", () => ({
       requestedSizeSeconds: size,
@@ -63,10 +65,31 @@ export class TextBuffer {
   }
 
   getRange(start: number, end: number): string {
-    return this.segments
-      .filter((s) => s.timestamp >= start && s.timestamp <= end)
-      .map((s) => s.content)
-      .join(" ");
+    return this.join(
+      this.segments.filter((s) => s.timestamp >= start && s.timestamp <= end),
+    );
+  }
+
+  /**
+   * Join segments with spaces; when speakers are known, each speaker change
+   * starts a new `Speaker: ...` line so prompts keep who said what.
+   */
+  private join(segments: TextSegment[]): string {
+    let text = "";
+    let previous: TextSegment | undefined;
+    for (const segment of segments) {
+      const changed =
+        previous !== undefined &&
+        !isSameSpeaker(previous.speaker, segment.speaker);
+      const line = segment.speaker
+        ? `${speakerLabel(segment.speaker)}: ${segment.content}`
+        : segment.content;
+      if (previous === undefined) text = line;
+      else if (changed) text += `\n${line}`;
+      else text += ` ${segment.content}`;
+      previous = segment;
+    }
+    return text;
   }
 
   getLastNWords(n: number): string {
@@ -130,6 +153,33 @@ export class TextBuffer {
     });
   }
 
+  /** Drop segments that end after `time` (seconds), e.g. after seeking backwards */
+  discardAfter(time: number): void {
+    const before = this.segments.length;
+    this.segments = this.segments.filter((s) => s.timestamp <= time);
+    this.logger.debug("Discarded segments after time", {
+      time,
+      discardedSegments: before - this.segments.length,
+      remainingSegments: this.segments.length,
+    });
+  }
+
+  snapshot(): TextBufferState {
+    return {
+      segments: this.segments.map((s) => ({ ...s })),
+      position: this.position,
+    };
+  }
+
+  restore(state: TextBufferState): void {
+    this.segments = state.segments.map((s) => ({ ...s }));
+    this.position = state.position;
+    this.logger.debug("Buffer restored", {
+      segmentCount: this.segments.length,
+      position: this.position,
+    });
+  }
+
   getStatistics(): BufferStats {
     if (this.segments.length === 0) {
       return {
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { VirtualClock } from "../lib/clock.js";
+import type { Turn } from "../type.js";
+import type { ShortTurnAggregatorConfig } from "./def.js";
+import { ShortTurnAggregator } from "./service.js";
+
+const config: ShortTurnAggregatorConfig = {
+  minTurnDurationMs: 1200,
+  aggregationMaxDelayMs: 800,
+  aggregationMaxGapMs: 400,
+  aggregationMaxWords: 50,
+  aggregationMaxTotalDurationMs: 12e3,
+};
+
+const turn = (
+  id: string,
+  content: string,
+  startTime: number,
+  endTime: number,
+  speaker?: Turn["speaker"],
+): Turn => ({ id, content, startTime, endTime, speaker });
+
+describe("ShortTurnAggregator", () => {
+  it("merges short turns until the minimum duration is reached", () => {
+    const aggregator = new ShortTurnAggregator(config, new VirtualClock());
+
+    assert.equal(aggregator.add(turn("a", "hello", 1, 1.5)), null);
+    const merged = aggregator.add(turn("b", "big news today", 1.7, 2.4));
+
+    assert.ok(merged);
+    assert.equal(merged.content, "hello big news today");
+    assert.equal(merged.startTime, 1);
+    assert.equal(merged.endTime, 2.4);
+    assert.deepEqual(
+      merged.sources?.map(({ id, offset }) => ({ id, offset })),
+      [
+        { id: "a", offset: 0 },
+        { id: "b", offset: 6 },
+      ],
+    );
+    assert.equal(aggregator.peek(), null);
+  });
+
+  it("emits the buffered turn once the inactivity timeout passes", () => {
+    const clock = new VirtualClock();
+    const aggregator = new ShortTurnAggregator(config, clock);
+    const emitted: Turn[] = [];
+    aggregator.on("timeout", (pending) => emitted.push(pending));
+
+    aggregator.add(turn("a", "hello", 1, 1.5));
+    clock.advanceBy(500);
+    // a new short turn restarts the debounce
+    aggregator.add(turn("b", "there", 1.6, 1.9));
+    clock.advanceBy(500);
+    assert.equal(emitted.length, 0);
+
+    clock.advanceBy(300);
+    assert.equal(emitted.length, 1);
+    assert.equal(emitted[0].content, "hello there");
+    assert.equal(aggregator.peek(), null);
+    assert.equal(clock.pendingTimers, 0);
+  });
+
+  it("keeps the timeout in media time at faster playback", () => {
+    const clock = new VirtualClock();
+    const aggregator = new ShortTurnAggregator(config, clock);
+    const emitted: Turn[] = [];
+    aggregator.on("timeout", (pending) => emitted.push(pending));
+
+    aggregator.add(turn("a", "hello", 1, 1.5));
+    aggregator.setPlaybackRate(2);
+    clock.advanceBy(399);
+    assert.equal(emitted.length, 0);
+    clock.advanceBy(1);
+    assert.equal(emitted.length, 1);
+  });
+
+  it("starts over when the gap to the previous turn is too large", () => {
+    const aggregator = new ShortTurnAggregator(config, new VirtualClock());
+
+    aggregator.add(turn("a", "hello", 1, 1.5));
+    aggregator.add(turn("b", "later", 3, 3.5));
+
+    assert.equal(aggregator.peek()?.content, "later");
+  });
+
+  it("flushes on speaker change instead of merging", () => {
+    const aggregator = new ShortTurnAggregator(config, new VirtualClock());
+    const flushed: [Turn, Turn][] = [];
+    aggregator.on("speaker-change", (pending, next) =>
+      flushed.push([pending, next]),
+    );
+
+    aggregator.add(turn("a", "any questions?", 1, 1.5, { id: "host" }));
+    aggregator.add(turn("b", "why now?", 1.6, 2, { id: "guest" }));
+
+    assert.equal(flushed.length, 1);
+    assert.equal(flushed[0][0].content, "any questions?");
+    assert.equal(flushed[0][1].id, "b");
+    assert.equal(aggregator.peek()?.speaker?.id, "guest");
+  });
+
+  it("restarts the timeout after restore", () => {
+    const clock = new VirtualClock();
+    const aggregator = new ShortTurnAggregator(config, clock);
+    const emitted: Turn[] = [];
+    aggregator.on("timeout", (pending) => emitted.push(pending));
+
+    aggregator.add(turn("a", "hello", 1, 1.5));
+    const snapshot = aggregator.snapshot();
+    clock.advanceBy(700);
+    aggregator.restore(snapshot);
+    clock.advanceBy(700);
+    assert.equal(emitted.length, 0);
+
+    clock.advanceBy(100);
+    assert.equal(emitted.length, 1);
+    assert.deepEqual(
+      emitted[0].sources?.map(({ id }) => id),
+      ["a"],
+    );
+  });
+});
@@ -1,10 +1,18 @@
 import { getLogger } from "@logtape/logtape";
 import { createNanoEvents } from "nanoevents";
-import type { Turn } from "../type.js";
+import {
+  realTimeClock,
+  type Scheduler,
+  type TimerHandle,
+} from "../lib/clock.js";
+import { isSameSpeaker } from "../lib/speaker.js";
+import type { Speaker, Turn, TurnSource } from "../type.js";
 import type { ShortTurnAggregatorConfig } from "./def.js";
 
 export interface ShortTurnAggregatorEvents {
   timeout: (turn: Turn) => void;
+  /** Buffered turn flushed early because the next turn has a different speaker */
+  "speaker-change": (turn: Turn, next: Turn) => void;
 }
 
 export class ShortTurnAggregator implements Disposable {
@@ -12,12 +20,18 @@ export class ShortTurnAggregator implements Disposable {
   private bufferedContent = "";
   private bufferedStartTime = 0;
   private lastTurnEndTime = 0;
-  private timeoutHandle: number | NodeJS.Timeout | null = null;
+  private bufferedSpeaker: Speaker | undefined;
+  private bufferedSources: TurnSource[] = [];
+  private timeoutHandle: TimerHandle | null = null;
   private emitter = createNanoEvents<ShortTurnAggregatorEvents>();
   private segmenter: Intl.Segmenter | null = null;
   private aggregatedWordCount = 0;
+  private playbackRate = 1;
 
-  constructor(private config: ShortTurnAggregatorConfig) {
+  constructor(
+    private config: ShortTurnAggregatorConfig,
+    private scheduler: Scheduler = realTimeClock,
+  ) {
     // Try to construct a word segmenter; fall back gracefully
     try {
       // Use "word" granularity; locale-agnostic by default
@@ -34,6 +48,22 @@ export class ShortTurnAggregator implements Disposable {
   add(turn: Turn): Turn | null {
     const content = turn.content ?? "";
 
+    // Never merge across speakers: hand the other speaker's buffer off first
+    if (
+      this.bufferedContent.length > 0 &&
+      !isSameSpeaker(this.bufferedSpeaker, turn.speaker)
+    ) {
+      const pending = this.flush();
+      if (pending) {
+        this.logger.debug("Speaker changed, flushing buffered turn", {
+          turnId: pending.id,
+          previousSpeaker: pending.speaker?.id,
+          nextSpeaker: turn.speaker?.id,
+        });
+        this.emitter.emit("speaker-change", pending, turn);
+      }
+    }
+
     // If there is no active buffer, start one.
     const hasActiveBuffer = this.bufferedContent.length > 0;
     // Convert media-relative seconds to milliseconds when comparing against ms config
@@ -64,13 +94,23 @@ export class ShortTurnAggregator implements Disposable {
       }
       this.resetBuffer();
       this.bufferedStartTime = turn.startTime;
+      this.bufferedSpeaker = turn.speaker;
     }
 
     // Append with a separating space if needed
     const previousContentLength = this.bufferedContent.length;
+    const offset = this.bufferedContent ? previousContentLength + 1 : 0;
     this.bufferedContent = this.bufferedContent
       ? `${this.bufferedContent} ${content}`
       : content;
+    this.bufferedSources.push(
+      ...(turn.sources ?? [{ ...turn, offset: 0 }]).map((source) => ({
+        id: source.id,
+        startTime: source.startTime,
+        endTime: source.endTime,
+        offset: offset + source.offset,
+      })),
+    );
 
     // Update word count
     const previousWordCount = this.aggregatedWordCount;
@@ -135,6 +175,8 @@ export class ShortTurnAggregator implements Disposable {
         content: this.bufferedContent,
         startTime: this.bufferedStartTime,
         endTime: this.lastTurnEndTime,
+        speaker: this.bufferedSpeaker,
+        sources: [...this.bufferedSources],
       };
       this.clearTimeout();
       this.resetBuffer();
@@ -142,25 +184,7 @@ export class ShortTurnAggregator implements Disposable {
     }
 
     // Otherwise schedule (or reschedule) a debounce timeout so we flush after inactivity
-    this.clearTimeout();
-    this.timeoutHandle = setTimeout(() => {
-      const pending = this.peek();
-      if (pending) {
-        this.logger.debug(
-          "Aggregation timeout reached, emitting buffered turn",
-          {
-            turnId: pending.id,
-            bufferedContent: pending.content.substring(0, 100),
-            wordCount: this.aggregatedWordCount,
-            elapsedMs: (pending.endTime - pending.startTime) * 1000,
-            timeoutMs: this.config.aggregationMaxDelayMs,
-          },
-        );
-        this.emitter.emit("timeout", pending);
-      }
-      this.clearTimeout();
-      this.resetBuffer();
-    }, this.config.aggregationMaxDelayMs);
+    this.scheduleTimeout();
 
     this.logger.trace("Scheduled aggregation timeout", {
       turnId: turn.id,
@@ -187,9 +211,48 @@ export class ShortTurnAggregator implements Disposable {
       content: this.bufferedContent,
       startTime: this.bufferedStartTime,
       endTime: this.lastTurnEndTime,
+      speaker: this.bufferedSpeaker,
+      sources: [...this.bufferedSources],
     };
   }
 
+  /** Shorten the inactivity timeout at faster playback so it keeps its media-time length */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    if (this.timeoutHandle) this.scheduleTimeout();
+  }
+
+  /** Pending buffered content, for persisting across restarts */
+  snapshot(): Turn | null {
+    return this.peek();
+  }
+
+  /**
+   * Resume with previously buffered content; the inactivity timeout starts over.
+   */
+  restore(pending: Turn | null): void {
+    this.clear();
+    if (!pending?.content) return;
+    this.bufferedContent = pending.content;
+    this.bufferedStartTime = pending.startTime;
+    this.lastTurnEndTime = pending.endTime;
+    this.bufferedSpeaker = pending.speaker;
+    this.bufferedSources = pending.sources ?? [
+      {
+        id: pending.id,
+        startTime: pending.startTime,
+        endTime: pending.endTime,
+        offset: 0,
+      },
+    ];
+    this.aggregatedWordCount = this.countWords(pending.content);
+    this.scheduleTimeout();
+    this.logger.debug("Aggregator restored", {
+      bufferedContentLength: this.bufferedContent.length,
+      wordCount: this.aggregatedWordCount,
+    });
+  }
+
   /** Force flush (if any) even if below threshold; returns turn or null */
   flush(): Turn | null {
     if (!this.bufferedContent) {
@@ -202,6 +265,8 @@ export class ShortTurnAggregator implements Disposable {
       content: this.bufferedContent,
       startTime: this.bufferedStartTime,
       endTime: this.lastTurnEndTime,
+      speaker: this.bufferedSpeaker,
+      sources: [...this.bufferedSources],
     };
 
     this.logger.debug("Flushing buffered turn", {
@@ -240,13 +305,37 @@ export class ShortTurnAggregator implements Disposable {
     this.bufferedContent = "";
     this.bufferedStartTime = 0;
     this.lastTurnEndTime = 0;
+    this.bufferedSpeaker = undefined;
+    this.bufferedSources = [];
     this.aggregatedWordCount = 0;
     this.logger.trace("Buffer reset");
   }
 
+  private scheduleTimeout(): void {
+    this.clearTimeout();
+    this.timeoutHandle = this.scheduler.setTimeout(() => {
+      const pending = this.peek();
+      if (pending) {
+        this.logger.debug(
+          "Aggregation timeout reached, emitting buffered turn",
+          {
+            turnId: pending.id,
+            bufferedContent: pending.content.substring(0, 100),
+            wordCount: this.aggregatedWordCount,
+            elapsedMs: (pending.endTime - pending.startTime) * 1000,
+            timeoutMs: this.config.aggregationMaxDelayMs,
+          },
+        );
+        this.emitter.emit("timeout", pending);
+      }
+      this.clearTimeout();
+      this.resetBuffer();
+    }, this.config.aggregationMaxDelayMs / this.playbackRate);
+  }
+
   private clearTimeout(): void {
     if (this.timeoutHandle) {
-      clearTimeout(this.timeoutHandle);
+      this.scheduler.clearTimeout(this.timeoutHandle);
       this.timeoutHandle = null;
     }
   }
@@ -1,5 +1,14 @@
 import z from "zod/v4";
 
+export interface Speaker {
+  /** Stable identifier; turns with the same id are the same speaker */
+  id: string;
+  /** Display name, defaults to `id` */
+  name?: string;
+  /** e.g. "host", "guest", "moderator" */
+  role?: string;
+}
+
 export interface Turn {
   id: string;
   content: string;
@@ -7,14 +16,66 @@ export interface Turn {
   startTime: number;
   /** normal playback time in seconds */
   endTime: number;
+  speaker?: Speaker;
+  /** Original turns folded into this one by the short-turn aggregator or a coalesced detection job, in order */
+  sources?: TurnSource[];
+}
+
+/** An original turn inside an aggregated one */
+export interface TurnSource {
+  id: string;
+  startTime: number;
+  endTime: number;
+  /** Character offset of its content within the aggregated content */
+  offset: number;
 }
 
 export interface TextSegment {
   content: string;
   timestamp: number;
   position: number;
+  speaker?: Speaker;
 }
 
+// Schemas for persisted state (see snapshot/); keep in sync with the interfaces
+export const speakerSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  role: z.string().optional(),
+});
+
+export const turnSourceSchema = z.object({
+  id: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  offset: z.number(),
+});
+
+export const turnSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  startTime: z.number(),
+  endTime: z.number(),
+  speaker: speakerSchema.optional(),
+  sources: z.array(turnSourceSchema).optional(),
+});
+
+export const textSegmentSchema = z.object({
+  content: z.string(),
+  timestamp: z.number(),
+  position: z.number(),
+  speaker: speakerSchema.optional(),
+});
+
+export const commentSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  writer: z.string(),
+  length: z.number(),
+  generationTime: z.number(),
+  metadata: z.object({ timestamp: z.number() }).optional(),
+});
+
 export const eventTypeSchema = z.union([
   z
     .literal("emotion_peak")
@@ -39,21 +100,57 @@ export const eventTypeSchema = z.union([
   z.literal("summary_point").describe("Recap or summarization moments"),
 ]);
 
-export type EventType = z.infer<typeof eventTypeSchema>;
+export type BuiltInEventType = z.infer<typeof eventTypeSchema>;
+
+export const builtInEventTypes: readonly BuiltInEventType[] =
+  eventTypeSchema.options.map((option) => option.value);
+
+export function isBuiltInEventType(type: string): type is BuiltInEventType {
+  return (builtInEventTypes as readonly string[]).includes(type);
+}
+
+/** A built-in type or one defined in `eventDetector.customEventTypes` */
+export type EventType = BuiltInEventType | (string & {});
+
+/** Where a trigger occurs in the transcript */
+export interface TriggerSpan {
+  /** Source turn containing the trigger */
+  turnId: string;
+  /** Character offsets into the content of that turn, end exclusive */
+  start: number;
+  end: number;
+  /** The matched text */
+  text: string;
+}
 
 export interface Event {
   id: string;
   type: EventType;
   confidence: number; // 0-1
+  /** Media time the event was detected at, the end of the detected turn */
   timestamp: number;
+  /** `endTime - startTime` */
   duration: number;
+  /** Media seconds the event refers to, narrowed to where its triggers were found */
+  startTime: number;
+  endTime: number;
+  /** Source turns the event refers to; the original turns for aggregated ones */
+  turnIds: string[];
   intensity: number; // 0-1
   triggers: string[];
+  /** Triggers located in the turn text; triggers the model paraphrased are missing */
+  triggerSpans: TriggerSpan[];
+  /** Detection provider that produced the event, e.g. `openai` or `heuristic` */
+  provider?: string;
   metadata?: {
     detectedViaTimer?: boolean;
+    /** Model that produced the event, when it came from a model */
+    model?: string;
     reasoning?: string;
     language?: string;
     contentQualityScore?: number;
+    /** Id of the earlier event this one repeats; its intensity was dampened */
+    repeatOf?: string;
   };
 }
 
@@ -0,0 +1,91 @@
+import z from "zod/v4";
+
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0).describe("USD per 1M input tokens"),
+  output: z.number().min(0).describe("USD per 1M output tokens"),
+  cachedInput: z
+    .number()
+    .min(0)
+    .optional()
+    .describe("USD per 1M cached input tokens (defaults to `input`)"),
+});
+
+export const UsageConfigSchema = z.object({
+  prices: z
+    .record(z.string(), ModelPriceSchema)
+    .describe("Price per model name; models without a price cost 0"),
+  maxCostUsd: z
+    .number()
+    .min(0)
+    .describe("Session budget in USD (0 = unlimited)"),
+  maxTokens: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Session budget in input + output tokens (0 = unlimited)"),
+  onBudgetExceeded: z
+    .enum(["downgrade", "stop"])
+    .describe(
+      "downgrade: switch to the downgrade models, or stop when none is set; stop: stop detecting and generating comments",
+    ),
+  downgradeDetectionModel: z
+    .string()
+    .optional()
+    .describe("Detection model once over budget, on the same provider"),
+  downgradeCommentModel: z
+    .string()
+    .optional()
+    .describe(
+      "Selector and writer model once over budget, on their configured providers",
+    ),
+});
+
+/** List prices in USD per 1M tokens; override or extend through `usage.prices` */
+export const defaultModelPrices: Record<string, ModelPrice> = {
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  "gemini-2.5-flash": { input: 0.3, cachedInput: 0.075, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+};
+
+export const defaultUsageConfig: UsageConfig = {
+  prices: defaultModelPrices,
+  maxCostUsd: 0,
+  maxTokens: 0,
+  onBudgetExceeded: "stop",
+};
+
+export type ModelPrice = z.output<typeof ModelPriceSchema>;
+export type UsageConfig = z.output<typeof UsageConfigSchema>;
+
+/** Tokens reported by one or more model requests */
+export interface TokenUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Part of `inputTokens` served from the provider's prompt cache */
+  cachedTokens: number;
+}
+
+/** What a request was made for: `detection`, `selector` or a writer name */
+export type UsageStage = string;
+
+export interface UsageSource {
+  stage: UsageStage;
+  provider: string;
+  model: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+}
+
+export interface UsageStatistics {
+  total: UsageTotals;
+  byStage: Record<UsageStage, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Why the budget is exhausted, or null while within budget */
+  budgetExceeded: string | null;
+}
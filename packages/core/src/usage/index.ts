@@ -0,0 +1,15 @@
+export {
+  defaultModelPrices,
+  defaultUsageConfig,
+  type ModelPrice,
+  ModelPriceSchema,
+  type TokenUsage,
+  type UsageConfig,
+  UsageConfigSchema,
+  type UsageSource,
+  type UsageStage,
+  type UsageStatistics,
+  type UsageTotals,
+} from "./def.js";
+export { toTokenUsage, UsageRecordingModel } from "./model.js";
+export { UsageTracker } from "./service.js";
@@ -0,0 +1,49 @@
+import {
+  type Model,
+  type ModelRequest,
+  type ModelResponse,
+  type StreamEvent,
+  Usage,
+} from "@openai/agents";
+import type { TokenUsage } from "./def.js";
+
+/** Convert the agents SDK usage to `TokenUsage` */
+export function toTokenUsage(usage: Usage): TokenUsage {
+  return {
+    requests: usage.requests,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cachedTokens: usage.inputTokensDetails.reduce(
+      (sum, details) => sum + (details?.cached_tokens ?? 0),
+      0,
+    ),
+  };
+}
+
+/**
+ * Agent model that reports the usage of every request it makes,
+ * so usage can be attributed to the agent (selector or writer) that owns it.
+ */
+export class UsageRecordingModel implements Model {
+  constructor(
+    private model: Model,
+    private onUsage: (usage: TokenUsage) => void,
+  ) {}
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    const response = await this.model.getResponse(request);
+    this.onUsage(toTokenUsage(response.usage));
+    return response;
+  }
+
+  async *getStreamedResponse(
+    request: ModelRequest,
+  ): AsyncIterable<StreamEvent> {
+    for await (const event of this.model.getStreamedResponse(request)) {
+      if (event.type === "response_done") {
+        this.onUsage(toTokenUsage(new Usage(event.response.usage)));
+      }
+      yield event;
+    }
+  }
+}
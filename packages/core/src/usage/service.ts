@@ -0,0 +1,109 @@
+import { getLogger } from "@logtape/logtape";
+import type {
+  TokenUsage,
+  UsageConfig,
+  UsageSource,
+  UsageStage,
+  UsageStatistics,
+  UsageTotals,
+} from "./def.js";
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, usage: TokenUsage, costUsd: number) {
+  totals.requests += usage.requests;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cachedTokens += usage.cachedTokens;
+  totals.costUsd += costUsd;
+}
+
+/**
+ * Adds up token usage and cost of one session, per stage and per model.
+ */
+export class UsageTracker {
+  private total = emptyTotals();
+  private byStage = new Map<UsageStage, UsageTotals>();
+  private byModel = new Map<string, UsageTotals>();
+  private unpriced = new Set<string>(); // Models already warned about
+  private logger = getLogger(["ai-reaction", "usage"]);
+
+  constructor(private config: UsageConfig) {}
+
+  /** USD cost of `usage` with the configured price of `model` */
+  cost(model: string, usage: TokenUsage): number {
+    const price = this.config.prices[model];
+    if (!price) {
+      if (!this.unpriced.has(model)) {
+        this.unpriced.add(model);
+        this.logger.warn("No price for model {model}, counting it as free", {
+          model,
+        });
+      }
+      return 0;
+    }
+    const cached = Math.min(usage.cachedTokens, usage.inputTokens);
+    return (
+      ((usage.inputTokens - cached) * price.input +
+        cached * (price.cachedInput ?? price.input) +
+        usage.outputTokens * price.output) /
+      1_000_000
+    );
+  }
+
+  record(source: UsageSource, usage: TokenUsage): void {
+    const costUsd = this.cost(source.model, usage);
+    addTo(this.total, usage, costUsd);
+    for (const [map, key] of [
+      [this.byStage, source.stage],
+      [this.byModel, `${source.provider}/${source.model}`],
+    ] as const) {
+      let totals = map.get(key);
+      if (!totals) {
+        totals = emptyTotals();
+        map.set(key, totals);
+      }
+      addTo(totals, usage, costUsd);
+    }
+    this.logger.debug("Usage recorded", () => ({
+      ...source,
+      ...usage,
+      costUsd,
+      totalCostUsd: this.total.costUsd,
+    }));
+  }
+
+  /** Why the session budget is exhausted, or null while within budget */
+  getBudgetExceeded(): string | null {
+    const { maxCostUsd, maxTokens } = this.config;
+    if (maxCostUsd > 0 && this.total.costUsd >= maxCostUsd) {
+      return `cost $${this.total.costUsd.toFixed(4)} reached the $${maxCostUsd} budget`;
+    }
+    const tokens = this.total.inputTokens + this.total.outputTokens;
+    if (maxTokens > 0 && tokens >= maxTokens) {
+      return `${tokens} tokens reached the ${maxTokens} token budget`;
+    }
+    return null;
+  }
+
+  getStatistics(): UsageStatistics {
+    return {
+      total: { ...this.total },
+      byStage: Object.fromEntries(
+        [...this.byStage].map(([k, v]) => [k, { ...v }]),
+      ),
+      byModel: Object.fromEntries(
+        [...this.byModel].map(([k, v]) => [k, { ...v }]),
+      ),
+      budgetExceeded: this.getBudgetExceeded(),
+    };
+  }
+}
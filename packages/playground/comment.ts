@@ -1,4 +1,4 @@
-import { generateComment, writers } from "ai-reaction";
+import { generateComment, writers } from "@prof/ai-reaction";
 
 export async function main() {
   const gen = await generateComment(
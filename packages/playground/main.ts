@@ -1,7 +1,12 @@
 import { readFile } from "node:fs/promises";
-import { createCommentSystem, type Turn, writers } from "@prof/ai-reaction";
-import { parseText } from "media-captions";
+import {
+  createCommentSystem,
+  mimicTurns,
+  type Turn,
+  writers,
+} from "@prof/ai-reaction";
 import { createNanoEvents } from "nanoevents";
+import { parseSubtitle } from "./subtitle.ts";
 
 interface PlayerEvents {
   play: () => void;
@@ -57,6 +62,8 @@ class Player implements Disposable {
 
   seekTo(time: number) {
     this.currentTime = Math.max(0, time);
+    // Cues interrupted by the jump never complete
+    this.activeTurns.clear();
     this.emitter.emit("seek", this.currentTime);
   }
 
@@ -103,7 +110,7 @@ class Player implements Disposable {
 export async function main(input: string) {
   const content = await readFile(input, "utf-8");
   const cues = input.endsWith(".txt")
-    ? mimicSubtitle(content)
+    ? mimicTurns(content)
     : await parseSubtitle(content);
 
   const player = new Player(cues);
@@ -129,6 +136,11 @@ export async function main(input: string) {
   player.on("cue-end", (cue) => {
     commentSystem.onTurnCompleted(cue);
   });
+  player.on("play", () => commentSystem.onResume());
+  player.on("pause", () => commentSystem.onPause());
+  player.on("seek", (time) => commentSystem.onSeek(time));
+  player.on("time-update", (time) => commentSystem.onTimeUpdate(time));
+  player.on("speed-changed", (speed) => commentSystem.onRateChange(speed));
 
   commentSystem.on("comment-started", async (comment) => {
     for await (const event of comment) {
@@ -147,51 +159,48 @@ export async function main(input: string) {
   commentSystem.on("comment-rejected", (reason) => {
     console.log("[comment-rejected]", reason);
   });
+  commentSystem.on("turn-dropped", (turn, reason) => {
+    console.log("[turn-dropped]", turn.id, reason);
+  });
+  commentSystem.on("events-filtered", (filtered, turn) => {
+    for (const { event, reason } of filtered) {
+      console.log("[events-filtered]", turn.id, event.type, reason);
+    }
+  });
+  commentSystem.on("events-updated", (events, turn) => {
+    for (const event of events) {
+      console.log("[events-updated]", turn.id, event.type, event.id);
+    }
+  });
+  commentSystem.on("detection-skipped", (turn, reason, score) => {
+    console.log("[detection-skipped]", turn.id, reason, score.toFixed(2));
+  });
+  commentSystem.on("comment-cancelled", (turn, reason) => {
+    console.log("[comment-cancelled]", turn.id, reason);
+  });
+  commentSystem.on("budget-exceeded", (reason, action, usage) => {
+    console.log("[budget-exceeded]", action, reason, usage.total);
+  });
+  commentSystem.on("call-retry", (stage, attempt, delayMs, error, fallback) => {
+    console.log(
+      "[call-retry]",
+      fallback ?? stage,
+      attempt,
+      delayMs,
+      (error as Error)?.message,
+    );
+  });
+  commentSystem.on("circuit-state", (stage, state, previous, fallback) => {
+    console.log("[circuit-state]", fallback ?? stage, previous, "->", state);
+  });
+  commentSystem.on("speaker-change", (speaker, previous) => {
+    console.log("[speaker-change]", previous?.id ?? "-", "->", speaker.id);
+  });
 
   player.setSpeed(3);
   player.play();
 }
 
-async function parseSubtitle(text: string): Promise<Turn[]> {
-  return (await parseText(text)).cues.map((c) => ({
-    id: c.id,
-    startTime: c.startTime,
-    endTime: c.endTime,
-    content: c.text,
-  }));
-}
-
-function mimicSubtitle(text: string): Turn[] {
-  const lines = text
-    .split("\n")
-    .map((v) => v.trim())
-    .filter((v) => !!v);
-
-  const segmenter = new Intl.Segmenter("und", { granularity: "word" });
-  const perWordMs = 300;
-  const gapMs = 500;
-
-  let currentMs = 0;
-
-  return lines.map((line, index) => {
-    const segments = Array.from(segmenter.segment(line));
-    const wordCount =
-      segments.reduce((count, seg) => count + (seg.isWordLike ? 1 : 0), 0) || 1;
-
-    const durationMs = wordCount * perWordMs;
-    const startMs = currentMs;
-    const endMs = startMs + durationMs;
-    currentMs = endMs + gapMs;
-
-    return {
-      id: String(index + 1),
-      startTime: startMs / 1000,
-      endTime: endMs / 1000,
-      content: line,
-    };
-  });
-}
-
 // Simple CLI entry for local testing
 if (import.meta.main) {
   const input = process.argv[2];
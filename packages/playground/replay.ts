@@ -0,0 +1,126 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  type CommentSystemConfigInput,
+  mimicTurns,
+  ReplayRunner,
+  writers,
+} from "@prof/ai-reaction";
+import { JsonFileDetectionCacheStore } from "@prof/ai-reaction/node";
+import { parseSubtitle } from "./subtitle.ts";
+
+export async function main(
+  input: string,
+  {
+    config: configPath,
+    out,
+    cache: cachePath,
+  }: { config?: string; out?: string; cache?: string } = {},
+) {
+  const content = await readFile(input, "utf-8");
+  const turns = input.endsWith(".txt")
+    ? mimicTurns(content)
+    : await parseSubtitle(content);
+
+  const config: CommentSystemConfigInput = configPath
+    ? JSON.parse(await readFile(configPath, "utf-8"))
+    : {
+        commentGenerator: {
+          writers: [
+            writers.analytical,
+            writers.descriptive,
+            writers.emotional,
+            writers.humorous,
+            writers.predictive,
+            writers.summary,
+          ],
+        },
+      };
+
+  // Reuse detection results of earlier runs over the same transcript
+  const detectionCacheStore = cachePath
+    ? new JsonFileDetectionCacheStore(cachePath)
+    : undefined;
+  if (detectionCacheStore) {
+    config.detectionCache = { ...config.detectionCache, enabled: true };
+  }
+
+  const runner = new ReplayRunner({
+    turns,
+    apiKeys: {
+      openai: process.env.OPENAI_API_KEY,
+      google: process.env.GOOGLE_API_KEY,
+    },
+    config,
+    detectionCacheStore,
+  });
+
+  runner.on("entry", (entry) => {
+    const time = entry.mediaTime.toFixed(1).padStart(7);
+    if (entry.type === "comment-generated") {
+      console.error(`[${time}s] comment (${entry.comment.writer})`);
+      console.error(`          ${entry.comment.content}`);
+    } else if (entry.type === "comment-rejected") {
+      console.error(`[${time}s] rejected: ${entry.reason}`);
+    } else if (entry.type === "turn-dropped") {
+      console.error(`[${time}s] dropped: ${entry.reason}`);
+    } else if (entry.type === "events-filtered") {
+      for (const { event, reason } of entry.filtered) {
+        console.error(`[${time}s] filtered ${event.type}: ${reason}`);
+      }
+    } else if (entry.type === "events-updated") {
+      for (const event of entry.events) {
+        console.error(
+          `[${time}s] extended ${event.type} ${event.id} to ${event.endTime.toFixed(1)}s`,
+        );
+      }
+    } else if (entry.type === "detection-skipped") {
+      console.error(`[${time}s] skipped: ${entry.reason}`);
+    } else if (entry.type === "comment-cancelled") {
+      console.error(`[${time}s] cancelled: ${entry.reason}`);
+    } else if (entry.type === "budget-exceeded") {
+      console.error(
+        `[${time}s] budget exceeded (${entry.action}): ${entry.reason}`,
+      );
+    } else if (entry.type === "circuit-state") {
+      console.error(
+        `[${time}s] ${entry.fallback ?? entry.stage} circuit ${entry.previous} -> ${entry.state}`,
+      );
+    } else if (entry.type === "error") {
+      console.error(`[${time}s] error: ${entry.error.message}`);
+    }
+  });
+
+  const trace = await runner.run();
+  await detectionCacheStore?.flush();
+  const json = JSON.stringify(trace, null, 2);
+  if (out) {
+    await writeFile(out, json);
+    console.error(`Trace written to ${out}`, trace.summary, trace.usage.total);
+  } else {
+    console.log(json);
+  }
+}
+
+// CLI entry: replay a transcript on a virtual timeline and dump the trace
+if (import.meta.main) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      out: { type: "string", short: "o" },
+      cache: { type: "string" },
+    },
+  });
+  const input = positionals[0];
+  if (!input) {
+    console.error(
+      "Usage: node replay.ts <input.(srt|vtt|txt)> [--config config.json] [--out trace.json] [--cache detections.json]",
+    );
+    process.exit(1);
+  }
+  main(input, values).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,6 @@
+import { cuesToTurns, type Turn } from "@prof/ai-reaction";
+import { parseText } from "media-captions";
+
+export async function parseSubtitle(text: string): Promise<Turn[]> {
+  return cuesToTurns((await parseText(text)).cues);
+}